@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+// Generate src/metadata-schema.ts — a JSON Schema (draft-07) for
+// spec-metadata.json — from the `SpecMetadata` interface in src/types.ts.
+//
+// Only the type constructs the metadata IR uses are supported: interfaces
+// (with optional properties and index signatures), inline object types,
+// arrays, string-literal unions, `Record<string, T>` and the primitives.
+// Anything else fails loudly so the schema never silently drifts.
+//
+// Usage: npm run generate:metadata-schema
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import ts from 'typescript';
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const TYPES_FILE = path.join(ROOT_DIR, 'src', 'types.ts');
+const OUTPUT_FILE = path.join(ROOT_DIR, 'src', 'metadata-schema.ts');
+
+/** Build the schema for `SpecMetadata` as declared in `typesFile`. */
+export function generateMetadataSchema(typesFile = TYPES_FILE) {
+  const source = ts.createSourceFile(
+    typesFile,
+    fs.readFileSync(typesFile, 'utf8'),
+    ts.ScriptTarget.ES2022,
+    true
+  );
+  const declarations = new Map();
+  for (const statement of source.statements) {
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+      declarations.set(statement.name.text, statement);
+    }
+  }
+
+  const definitions = {};
+  const fail = (node, message) => {
+    const { line } = source.getLineAndCharacterOfPosition(node.getStart());
+    throw new Error(`${typesFile}:${line + 1}: ${message}`);
+  };
+
+  const describe = (node) => {
+    const text = ts
+      .getJSDocCommentsAndTags(node)
+      .filter(ts.isJSDoc)
+      .map((doc) => ts.getTextOfJSDocComment(doc.comment) ?? '')
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return text ? { description: text } : {};
+  };
+
+  const objectSchema = (members) => {
+    const properties = {};
+    const required = [];
+    let additionalProperties = false;
+    for (const member of members) {
+      if (ts.isPropertySignature(member)) {
+        const name = member.name.getText(source).replace(/^['"]|['"]$/g, '');
+        properties[name] = { ...describe(member), ...typeSchema(member.type) };
+        if (!member.questionToken) required.push(name);
+      } else if (ts.isIndexSignatureDeclaration(member)) {
+        additionalProperties = typeSchema(member.type);
+      } else {
+        fail(member, `unsupported member kind ${ts.SyntaxKind[member.kind]}`);
+      }
+    }
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties,
+    };
+  };
+
+  const reference = (name, node) => {
+    if (!(name in definitions)) {
+      const declaration = declarations.get(name);
+      if (!declaration) fail(node, `unknown type ${name}`);
+      definitions[name] = {}; // reserve the name before recursing
+      definitions[name] = ts.isInterfaceDeclaration(declaration)
+        ? { ...describe(declaration), ...objectSchema(declaration.members) }
+        : { ...describe(declaration), ...typeSchema(declaration.type) };
+    }
+    return { $ref: `#/definitions/${name}` };
+  };
+
+  function typeSchema(node) {
+    switch (node.kind) {
+      case ts.SyntaxKind.StringKeyword:
+        return { type: 'string' };
+      case ts.SyntaxKind.NumberKeyword:
+        return { type: 'number' };
+      case ts.SyntaxKind.BooleanKeyword:
+        return { type: 'boolean' };
+      case ts.SyntaxKind.UnknownKeyword:
+        return true;
+    }
+    if (ts.isArrayTypeNode(node)) {
+      return { type: 'array', items: typeSchema(node.elementType) };
+    }
+    if (ts.isTypeLiteralNode(node)) {
+      return objectSchema(node.members);
+    }
+    if (ts.isUnionTypeNode(node)) {
+      const values = node.types.map((t) =>
+        ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal)
+          ? t.literal.text
+          : fail(t, 'only unions of string literals are supported')
+      );
+      return { type: 'string', enum: values };
+    }
+    if (ts.isTypeReferenceNode(node)) {
+      const name = node.typeName.getText(source);
+      if (name === 'Record') {
+        const [key, value] = node.typeArguments ?? [];
+        if (key?.kind !== ts.SyntaxKind.StringKeyword) {
+          fail(node, 'only Record<string, T> is supported');
+        }
+        return { type: 'object', additionalProperties: typeSchema(value) };
+      }
+      return reference(name, node);
+    }
+    fail(node, `unsupported type ${node.getText(source)}`);
+  }
+
+  reference('SpecMetadata', source);
+  const { SpecMetadata, ...rest } = definitions;
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'SpecMetadata',
+    ...SpecMetadata,
+    definitions: Object.fromEntries(
+      Object.entries(rest).sort(([a], [b]) => a.localeCompare(b))
+    ),
+  };
+}
+
+/** Source text of src/metadata-schema.ts for `schema`. */
+export function renderMetadataSchemaModule(schema) {
+  return `/**
+ * JSON Schema (draft-07) for \`spec-metadata.json\` (\`SpecMetadata\`).
+ *
+ * GENERATED from src/types.ts by scripts/generate-metadata-schema.mjs — do
+ * not edit by hand. Run \`npm run generate:metadata-schema\` after changing
+ * the metadata IR types.
+ */
+export const SPEC_METADATA_SCHEMA: Record<string, unknown> = ${JSON.stringify(schema, null, 2)};
+`;
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  fs.writeFileSync(OUTPUT_FILE, renderMetadataSchemaModule(generateMetadataSchema()));
+  console.log(`[generate-metadata-schema] Wrote ${path.relative(ROOT_DIR, OUTPUT_FILE)}`);
+}
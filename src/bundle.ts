@@ -23,9 +23,33 @@ import {
   forEachParameterArray,
   findPathLocalParameterRefs,
   sortRequiredArrays,
+  sortCanonically,
+  findDanglingRefs,
+  findReachableSchemas,
+  jsonPointerEncode,
 } from './helpers.js';
-import type { BundleOptions, BundleResult, BundleStats } from './types.js';
-import { extractMetadata } from './metadata.js';
+import type {
+  BundleOptions,
+  BundleResult,
+  BundleStats,
+  DecisionLogEntry,
+  DecisionStrategy,
+} from './types.js';
+import { extractMetadata, validateMetadataExtractors } from './metadata.js';
+import { renderOutputFiles, writeOutputFile } from './outputs.js';
+import { bundleCacheKey, readCachedBundle, writeCachedBundle } from './cache.js';
+import {
+  validateBundledSpec,
+  validateSpecMetadata,
+  formatValidationIssues,
+} from './validate.js';
+import { resolveProfileOptions, validateProfiles } from './profiles.js';
+import { applyProvenance, buildProvenance } from './provenance.js';
+import { createRunRecorder, type RunRecorder } from './report.js';
+import { defaultLogger, type Logger } from './logger.js';
+import { runPluginHooks } from './plugins.js';
+import { SpecEntryNotFoundError } from './errors.js';
+import { BUNDLER_VERSION } from './version.js';
 
 /**
  * Promote inline schemas inside component-level `oneOf`/`anyOf` compositions
@@ -38,7 +62,8 @@ import { extractMetadata } from './metadata.js';
  */
 function promoteInlineSchemas(
   schemas: Record<string, unknown>,
-  stats: BundleStats
+  stats: BundleStats,
+  logger: Logger
 ): void {
   const newSchemas: Record<string, unknown> = {};
 
@@ -105,9 +130,7 @@ function promoteInlineSchemas(
   const promotedCount = Object.keys(newSchemas).length;
   if (promotedCount > 0) {
     Object.assign(schemas, newSchemas);
-    console.log(
-      `[camunda-schema-bundler] Promoted ${promotedCount} inline schemas to named components`
-    );
+    logger.info(`Promoted ${promotedCount} inline schemas to named components`);
   }
 }
 
@@ -323,7 +346,8 @@ function freshSignatureDedup(
   bundled: Record<string, unknown>,
   schemas: Record<string, unknown>,
   analysis: SchemaAnalysis,
-  originalRefByJsonPath: Map<string, string>
+  originalRefByJsonPath: Map<string, string>,
+  decisionLog: DecisionLogEntry[]
 ): DedupResult {
   const AMBIGUOUS = '@@AMBIGUOUS@@';
   const { exactSigMap, structSigMap, exactSigCandidates, structSigCandidates, reverseRefIndex, componentInternalRefs } = analysis;
@@ -366,28 +390,50 @@ function freshSignatureDedup(
     }
   }
 
-  function walk(node: unknown, jsonPath = ''): void {
+  function replaceWithRef(
+    obj: Record<string, unknown>,
+    pointer: string,
+    name: string,
+    strategy: DecisionStrategy,
+    candidates: string[] = []
+  ): void {
+    for (const k of Object.keys(obj)) delete obj[k];
+    obj['$ref'] = `#/components/schemas/${name}`;
+    replaced++;
+    decisionLog.push({
+      step: 'dedup',
+      path: pointer,
+      component: name,
+      strategy,
+      rejectedCandidates: candidates.filter((c) => c !== name),
+    });
+  }
+
+  // `jsonPath` is the dotted form `originalRefByJsonPath` is keyed by;
+  // `pointer` is the same location as a JSON pointer, for the decision log.
+  function walk(node: unknown, jsonPath: string, pointer: string): void {
     if (!node || typeof node !== 'object' || seen.has(node)) return;
     seen.add(node);
 
     if (componentValues.has(node)) {
       if (!Array.isArray(node)) {
         for (const [k, v] of Object.entries(node as Record<string, unknown>))
-          walk(v, `${jsonPath}.${k}`);
+          walk(v, `${jsonPath}.${k}`, `${pointer}/${jsonPointerEncode(k)}`);
       }
       return;
     }
 
     if (Array.isArray(node)) {
       for (let idx = 0; idx < (node as unknown[]).length; idx++)
-        walk((node as unknown[])[idx], `${jsonPath}[${idx}]`);
+        walk((node as unknown[])[idx], `${jsonPath}[${idx}]`, `${pointer}/${idx}`);
       return;
     }
 
     const obj = node as Record<string, unknown>;
 
     // Recurse first (post-order)
-    for (const [k, v] of Object.entries(obj)) walk(v, `${jsonPath}.${k}`);
+    for (const [k, v] of Object.entries(obj))
+      walk(v, `${jsonPath}.${k}`, `${pointer}/${jsonPointerEncode(k)}`);
 
     // Resolve surviving path-local $refs (e.g. `sort/items` shared between two
     // structurally-identical alias schemas) to their intended component using
@@ -404,17 +450,21 @@ function freshSignatureDedup(
       typeof obj['$ref'] === 'string' &&
       (obj['$ref'] as string).startsWith('#/paths/')
     ) {
+      const originalName = originalRefByJsonPath.get(jsonPath);
       const name =
-        originalRefByJsonPath.get(jsonPath) ??
+        originalName ??
         lookupNestedOriginalRef(
           jsonPath,
           originalRefByJsonPath,
           componentInternalRefs
         );
       if (name && schemas[name]) {
-        for (const k of Object.keys(obj)) delete obj[k];
-        obj['$ref'] = `#/components/schemas/${name}`;
-        replaced++;
+        replaceWithRef(
+          obj,
+          pointer,
+          name,
+          originalName ? 'original-ref' : 'nested-original-ref'
+        );
       }
       return;
     }
@@ -433,6 +483,8 @@ function freshSignatureDedup(
     const exactSig = canonicalStringify(obj);
     let matchName = exactSigMap.get(exactSig);
     if (matchName === AMBIGUOUS) matchName = undefined;
+    let strategy: DecisionStrategy = 'exact-signature';
+    let candidates: string[] | undefined;
 
     // Fall back to structural match (ignores description, title)
     let structSig: string | undefined;
@@ -440,15 +492,17 @@ function freshSignatureDedup(
       structSig = structuralStringify(obj);
       matchName = structSigMap.get(structSig);
       if (matchName === AMBIGUOUS) matchName = undefined;
+      strategy = 'structural-signature';
     }
 
     // Disambiguate via component-level $ref context when signature is ambiguous
     if (!matchName) {
-      const candidates =
+      candidates =
         exactSigCandidates.get(exactSig) ??
         structSigCandidates.get(structSig ?? structuralStringify(obj));
       if (candidates && candidates.length > 1) {
         matchName = disambiguateByContext(obj, candidates, parentMap, schemas, reverseRefIndex);
+        strategy = 'context';
         // Fallback 1: if the upstream YAML's original `$ref` at this exact
         // jsonPath named one of the candidates, that name is authoritative.
         // The signature match guarantees the schema is structurally that
@@ -458,6 +512,7 @@ function freshSignatureDedup(
           const originalName = originalRefByJsonPath.get(jsonPath);
           if (originalName && candidates.includes(originalName)) {
             matchName = originalName;
+            strategy = 'original-ref';
           }
         }
         // Fallback 2: a nested inline whose enclosing path-level schema
@@ -474,6 +529,7 @@ function freshSignatureDedup(
           );
           if (nestedName && candidates.includes(nestedName)) {
             matchName = nestedName;
+            strategy = 'nested-original-ref';
           }
         }
         if (!matchName) {
@@ -483,16 +539,14 @@ function freshSignatureDedup(
     }
 
     if (matchName) {
-      for (const k of Object.keys(obj)) delete obj[k];
-      obj['$ref'] = `#/components/schemas/${matchName}`;
-      replaced++;
+      replaceWithRef(obj, pointer, matchName, strategy, candidates);
     }
   }
 
   const paths = bundled['paths'];
   if (paths && typeof paths === 'object') {
     buildParentMap(paths);
-    walk(paths, '#/paths');
+    walk(paths, '#/paths', '#/paths');
   }
 
   return { replaced, ambiguous };
@@ -707,10 +761,19 @@ function isMonolithicEntryFile(entryPath: string): boolean {
   }
 }
 
+const HTTP_METHODS = new Set([
+  'get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace',
+]);
+
 /**
  * Bundle the multi-file OpenAPI spec into a single normalized JSON document.
+ *
+ * With `options.profiles`, the spec is parsed and normalized once (Steps
+ * 1–3b) and then finished separately for the base options and for each
+ * profile; see `BundleProfile`.
  */
 export async function bundle(options: BundleOptions): Promise<BundleResult> {
+  const logger = options.logger ?? defaultLogger;
   const entryFile = options.entryFile ?? 'rest-api.yaml';
   const entryPath = path.join(options.specDir, entryFile);
   const manualOverrides = {
@@ -719,11 +782,170 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
   };
 
   if (!fs.existsSync(entryPath)) {
-    throw new Error(
-      `Spec entry not found at ${entryPath}. Ensure the upstream spec has been fetched.`
+    throw new SpecEntryNotFoundError(
+      `Spec entry not found at ${entryPath}. Ensure the upstream spec has been fetched.`,
+      entryPath
+    );
+  }
+
+  const { profiles = [], ...baseOptions } = options;
+  validateProfiles(profiles);
+  validateMetadataExtractors(options.metadataExtractors ?? []);
+  const variants: { name?: string; options: BundleOptions }[] = [
+    { options: baseOptions },
+    ...profiles.map((profile) => ({
+      name: profile.name,
+      options: resolveProfileOptions(options, profile),
+    })),
+  ];
+
+  // ── Step 0: Content-addressed cache lookup ────────────────────────────────
+  // The tree hash doubles as the metadata `specHash` (Step 6), so computing it
+  // up front costs nothing extra on a miss. Each variant is cached on its own;
+  // Steps 1–3b run at most once, and only if some variant misses.
+
+  // Timings and warnings are kept per phase so that each variant's report
+  // covers exactly the steps that produced it: the hash, the shared front
+  // half (only if this variant was not a cache hit) and its own steps.
+  const setupRun = createRunRecorder(logger);
+  const specHash = hashDirectoryTree(options.specDir);
+  setupRun.step('hash');
+  const prepareRun = createRunRecorder(logger);
+  let prepared: PreparedBundle | undefined;
+  const results: BundleResult[] = [];
+  const plugins = options.plugins ?? [];
+  // Plugins and custom extractors can change the result in ways the cache
+  // key cannot capture.
+  const cacheable =
+    plugins.length === 0 && (options.metadataExtractors ?? []).length === 0;
+  if (!cacheable && options.cacheDir) {
+    logger.debug('Plugins or metadata extractors are set; bypassing the bundle cache');
+  }
+
+  for (const variant of variants) {
+    if (variant.name !== undefined) {
+      logger.info(`Profile "${variant.name}"`);
+    }
+    const run = createRunRecorder(logger);
+    const cacheDir = cacheable ? variant.options.cacheDir : undefined;
+    const cacheKey = cacheDir
+      ? bundleCacheKey(specHash, { ...variant.options, entryFile, manualOverrides })
+      : undefined;
+    const cached = cacheDir && cacheKey ? readCachedBundle(cacheDir, cacheKey) : undefined;
+    if (cacheDir) run.step('cache-read');
+
+    let unreported: Omit<BundleResult, 'report'>;
+    const cacheHit = cached !== undefined;
+    if (cached) {
+      logger.info(`Cache hit (${cacheKey!.slice(0, 12)}), skipping bundling`);
+      unreported = cached.result;
+      unreported.stats.cacheHit = true;
+      // Replay the warnings of the run that produced the entry, so that a
+      // hit logs and reports the same ones.
+      for (const warning of cached.warnings) run.warn(warning);
+    } else {
+      if (!prepared) {
+        prepareRun.start();
+        prepared = await prepareBundle(entryPath, manualOverrides, options, prepareRun);
+      }
+      // A single variant can consume the prepared document directly; several
+      // each need their own copy, since Steps 3d+ mutate it.
+      run.start();
+      unreported = await finishBundle(
+        variants.length > 1 ? forkPreparedBundle(prepared) : prepared,
+        variant.options,
+        specHash,
+        run
+      );
+      if (cacheDir && cacheKey) {
+        unreported.stats.cacheHit = false;
+        writeCachedBundle(cacheDir, cacheKey, {
+          result: unreported,
+          warnings: [...prepareRun.warnings, ...run.warnings],
+        });
+      }
+    }
+
+    if (variant.options.outputEndpointMap) {
+      unreported.stats.endpointMapDeprecated = true;
+      run.warn(
+        'endpoint-map.json is deprecated and ' +
+          'will be removed in 3.0.0. The same per-operation source file is now ' +
+          'available as `sourceFile` on each entry in `spec-metadata.json`\'s ' +
+          '`operations[]`. See https://github.com/camunda/camunda-schema-bundler/issues/21'
+      );
+    }
+
+    const phases = cacheHit ? [setupRun, run] : [setupRun, prepareRun, run];
+    const result: BundleResult = {
+      ...unreported,
+      report: {
+        bundlerVersion: BUNDLER_VERSION,
+        ref: variant.options.ref,
+        specDir: variant.options.specDir,
+        specHash,
+        profile: variant.name,
+        stats: unreported.stats,
+        timings: Object.assign({}, ...phases.map((p) => p.timings)),
+        warnings: phases.flatMap((p) => p.warnings),
+      },
+    };
+
+    // Provenance is applied after the cache write, since `ref`, `commit` and
+    // `repoUrl` are not part of the cache key.
+    if (variant.options.provenance) {
+      applyProvenance(result, buildProvenance(variant.options, specHash, variant.name));
+    }
+
+    // ── Step 7: Write outputs ───────────────────────────────────────────────
+
+    await runPluginHooks(plugins, 'beforeWrite', {
+      spec: result.spec,
+      schemas: ensureComponents(result.spec)['schemas'] as Record<string, unknown>,
+      options: variant.options,
+      logger,
+      result,
+    });
+    for (const file of renderOutputFiles(result, variant.options)) {
+      writeOutputFile(file);
+    }
+    results.push(result);
+  }
+
+  const [result, ...profileResults] = results;
+  if (profiles.length > 0) {
+    result.profiles = Object.fromEntries(
+      profiles.map((profile, i) => [profile.name, profileResults[i]])
     );
   }
+  return result;
+}
+
+/**
+ * State handed from the shared front half of the pipeline (Steps 1–3b) to
+ * the per-variant back half (Steps 3d–6b).
+ */
+interface PreparedBundle {
+  bundled: Record<string, unknown>;
+  schemas: Record<string, unknown>;
+  stats: BundleStats;
+  endpointMap: Record<string, string>;
+  sourceFileByOp: Map<string, string>;
+  originalRefByJsonPath: Map<string, string>;
+  /** Read-only copies; never mutated after Step 3b. */
+  preNormSnapshot: Record<string, unknown>;
+  postNormSnapshot: Record<string, unknown>;
+  decisionLog: DecisionLogEntry[];
+}
 
+/** Steps 1–3b: parse, augment and normalize the spec tree. */
+async function prepareBundle(
+  entryPath: string,
+  manualOverrides: Record<string, string>,
+  options: BundleOptions,
+  run: RunRecorder
+): Promise<PreparedBundle> {
+  const logger = options.logger ?? defaultLogger;
   const stats: BundleStats = {
     pathCount: 0,
     schemaCount: 0,
@@ -734,21 +956,29 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
     dereferencedPathLocalRefCount: 0,
     pathLocalLikeRefCount: 0,
     inlinedPathLocalParameterCount: 0,
+    danglingRefCount: 0,
   };
 
   // ── Step 1: Bundle multi-file YAML into a single document ─────────────────
 
   const isMonolithic = isMonolithicEntryFile(entryPath);
   if (isMonolithic) {
-    console.log(
-      `[camunda-schema-bundler] Detected monolithic spec (pre-8.9) at ${entryPath}`
-    );
+    logger.info(`Detected monolithic spec (pre-8.9) at ${entryPath}`);
   }
 
   const bundled = (await SwaggerParser.bundle(entryPath)) as Record<
     string,
     unknown
   >;
+  const plugins = options.plugins ?? [];
+  const pluginContext = () => ({
+    spec: bundled,
+    schemas: ensureComponents(bundled)['schemas'] as Record<string, unknown>,
+    options,
+    logger,
+  });
+  await runPluginHooks(plugins, 'afterBundle', pluginContext());
+  run.step('parse');
 
   // ── Step 2: Augment schemas & build endpoint map in a single pass ─────────
   // Scan YAML files once: extract missing component schemas (multi-file only)
@@ -759,9 +989,6 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
   const components = ensureComponents(bundled);
   const schemas = components['schemas'] as Record<string, unknown>;
 
-  const HTTP_METHODS = new Set([
-    'get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace',
-  ]);
   const endpointMap: Record<string, string> = {};
   // Per-operation source file map keyed by `${methodLower} ${path}` (e.g.
   // "get /process-instances"). Used to populate `OperationSummary.sourceFile`
@@ -866,6 +1093,8 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
     return methodA.localeCompare(methodB);
   });
   const sortedEndpointMap: Record<string, string> = Object.fromEntries(sortedEntries);
+  await runPluginHooks(plugins, 'afterAugment', pluginContext());
+  run.step('augment');
 
   // ── Step 2b: Normalize unordered-set fields for deterministic signatures ──
   //
@@ -885,6 +1114,21 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
 
   // ── Step 3: Normalize path-local $refs via signature matching ─────────────
 
+  // User-supplied overrides must name an existing component; a typo would
+  // otherwise produce a dangling $ref far from its cause. (The built-in
+  // defaults are exempt: their targets do not exist in pre-8.9 specs.)
+  const userOverrides = options.manualOverrides ?? {};
+  const missingTargets = Object.entries(userOverrides).filter(
+    ([, name]) => !schemas[name]
+  );
+  if (missingTargets.length > 0) {
+    throw new Error(
+      `${missingTargets.length} manual override(s) target a schema that does not exist in components.schemas:\n` +
+        missingTargets.map(([ref, name]) => `  ${ref} -> ${name}`).join('\n')
+    );
+  }
+  const matchedOverrides = new Set<string>();
+
   const componentValues = new Set(Object.values(schemas));
   const AMBIGUOUS = '@@AMBIGUOUS@@';
   const schemaSignatureMap = new Map<string, string>();
@@ -903,8 +1147,29 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
   // cannot destroy paths that later ref resolutions depend on.
   const preNormSnapshot = JSON.parse(JSON.stringify(bundled));
 
+  // Rewrites are logged with the JSON pointer of the live location; nodes
+  // normalized inside `preNormSnapshot` (to resolve a ref) have no pointer
+  // and are not logged, as they never reach the output.
+  const decisionLog: DecisionLogEntry[] = [];
+  const logDecision = (
+    pointer: string | undefined,
+    component: string,
+    strategy: DecisionStrategy
+  ): void => {
+    if (pointer === undefined) return;
+    decisionLog.push({
+      step: 'normalize',
+      path: pointer,
+      component,
+      strategy,
+      rejectedCandidates: [],
+    });
+  };
+  const childPointer = (pointer: string | undefined, key: string | number) =>
+    pointer === undefined ? undefined : `${pointer}/${jsonPointerEncode(String(key))}`;
+
   const normSeen = new Set<unknown>();
-  function safeNormalize(root: unknown): void {
+  function safeNormalize(root: unknown, pointer?: string): void {
     if (!root || typeof root !== 'object') return;
     if (normSeen.has(root)) return;
     normSeen.add(root);
@@ -923,23 +1188,28 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
         schemas['LikeFilter']
       ) {
         obj['$ref'] = '#/components/schemas/LikeFilter';
+        logDecision(pointer, 'LikeFilter', 'like-filter');
         return;
       }
     }
 
     // Don't mutate top-level component schemas themselves
     if (componentValues.has(root)) {
-      for (const v of Object.values(obj)) safeNormalize(v);
+      for (const [k, v] of Object.entries(obj)) {
+        safeNormalize(v, childPointer(pointer, k));
+      }
       return;
     }
 
     if (Array.isArray(root)) {
-      (root as unknown[]).forEach((x) => safeNormalize(x));
+      (root as unknown[]).forEach((x, i) => safeNormalize(x, childPointer(pointer, i)));
       return;
     }
 
     // Post-order: normalize children first
-    for (const v of Object.values(obj)) safeNormalize(v);
+    for (const [k, v] of Object.entries(obj)) {
+      safeNormalize(v, childPointer(pointer, k));
+    }
 
     // Rewrite path-local refs to component refs
     if (
@@ -955,13 +1225,25 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
           typeof resolvedObj['$ref'] === 'string' &&
           (resolvedObj['$ref'] as string).startsWith('#/components/schemas/')
         ) {
+          // An override for this ref is redundant here, not stale.
+          if (manualOverrides[obj['$ref'] as string]) {
+            matchedOverrides.add(obj['$ref'] as string);
+          }
           obj['$ref'] = resolvedObj['$ref'];
+          logDecision(
+            pointer,
+            (resolvedObj['$ref'] as string).slice('#/components/schemas/'.length),
+            'component-ref'
+          );
           return;
         }
 
         // Check manual overrides
-        if (manualOverrides[obj['$ref'] as string]) {
-          obj['$ref'] = `#/components/schemas/${manualOverrides[obj['$ref'] as string]}`;
+        const override = manualOverrides[obj['$ref'] as string];
+        if (override) {
+          matchedOverrides.add(obj['$ref'] as string);
+          obj['$ref'] = `#/components/schemas/${override}`;
+          logDecision(pointer, override, 'manual-override');
           return;
         }
 
@@ -970,6 +1252,7 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
         const matchingName = schemaSignatureMap.get(sig);
         if (matchingName && matchingName !== AMBIGUOUS) {
           obj['$ref'] = `#/components/schemas/${matchingName}`;
+          logDecision(pointer, matchingName, 'exact-signature');
           return;
         }
       }
@@ -982,6 +1265,7 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
       if (matchingName && matchingName !== AMBIGUOUS) {
         for (const k of Object.keys(obj)) delete obj[k];
         obj['$ref'] = `#/components/schemas/${matchingName}`;
+        logDecision(pointer, matchingName, 'exact-signature');
       }
     }
 
@@ -994,23 +1278,89 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
       const target = obj['x-semantic-type'] as string;
       for (const k of Object.keys(obj)) delete obj[k];
       obj['$ref'] = `#/components/schemas/${target}`;
+      logDecision(pointer, target, 'semantic-type');
     }
   }
 
-  safeNormalize(bundled);
+  safeNormalize(bundled, '#');
   rewriteInternalRefs(bundled);
 
+  const unmatchedOverrides = Object.keys(userOverrides).filter(
+    (ref) => !matchedOverrides.has(ref)
+  );
+  if (unmatchedOverrides.length > 0) {
+    run.warn(
+      `${unmatchedOverrides.length} manual override(s) never matched a path-local $ref (stale or mistyped?):\n` +
+        unmatchedOverrides.map((ref) => `  ${ref}`).join('\n')
+    );
+  }
+  run.step('normalize');
+
   // ── Step 3b: Promote inline schemas to named components ───────────────────
 
   const prePromotionCount = Object.keys(schemas).length;
-  promoteInlineSchemas(schemas, stats);
+  promoteInlineSchemas(schemas, stats, logger);
   stats.promotedInlineSchemaCount = Object.keys(schemas).length - prePromotionCount;
+  await runPluginHooks(plugins, 'afterNormalize', pluginContext());
+  run.step('promote');
 
   // Post-normalization + promotion snapshot for dereferencing.
   // Using this instead of preNormSnapshot means dereferenced schemas will
   // have normalized $like refs and promoted ExactMatch $refs.
   const postNormSnapshot = JSON.parse(JSON.stringify(bundled));
 
+  return {
+    bundled,
+    schemas,
+    stats,
+    endpointMap: sortedEndpointMap,
+    sourceFileByOp,
+    originalRefByJsonPath,
+    preNormSnapshot,
+    postNormSnapshot,
+    decisionLog,
+  };
+}
+
+/**
+ * Deep-copy the mutable parts of a prepared bundle so that it can be
+ * finished once per variant.
+ */
+function forkPreparedBundle(prepared: PreparedBundle): PreparedBundle {
+  const bundled = JSON.parse(JSON.stringify(prepared.bundled)) as Record<
+    string,
+    unknown
+  >;
+  return {
+    ...prepared,
+    bundled,
+    schemas: ensureComponents(bundled)['schemas'] as Record<string, unknown>,
+    stats: structuredClone(prepared.stats),
+    endpointMap: { ...prepared.endpointMap },
+    decisionLog: [...prepared.decisionLog],
+  };
+}
+
+/** Steps 3d–6b: variant-specific inlining, dedup, checks and metadata. */
+async function finishBundle(
+  prepared: PreparedBundle,
+  options: BundleOptions,
+  specHash: string,
+  run: RunRecorder
+): Promise<Omit<BundleResult, 'report'>> {
+  const logger = options.logger ?? defaultLogger;
+  const {
+    bundled,
+    schemas,
+    stats,
+    endpointMap: sortedEndpointMap,
+    sourceFileByOp,
+    originalRefByJsonPath,
+    preNormSnapshot,
+    postNormSnapshot,
+    decisionLog,
+  } = prepared;
+
   // ── Step 3c: Fresh dedup pass (runs after deref, see Step 4b) ──────────────
 
   // ── Step 3d: Always inline path-local $refs inside `parameters` arrays ────
@@ -1082,6 +1432,7 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
       if (inlined === 0) break;
     }
   }
+  run.step('inline-parameter-refs');
 
   // ── Step 4: Optionally dereference remaining path-local $refs ─────────────
 
@@ -1154,6 +1505,7 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
       stats.dereferencedPathLocalRefCount += dereferenced;
       if (dereferenced === 0) break;
     }
+    run.step('dereference');
   }
 
   // ── Step 4b: Fresh dedup pass (iterative) ──────────────────────────────────
@@ -1169,14 +1521,56 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
       bundled,
       schemas,
       schemaAnalysis,
-      originalRefByJsonPath
+      originalRefByJsonPath,
+      decisionLog
     );
     stats.freshDedupCount += count;
     lastAmbiguous = ambiguous;
     if (count === 0) break;
-    console.log(
-      `[camunda-schema-bundler] Fresh dedup pass ${dedupPass}: replaced ${count} inline duplicates`
+    logger.info(
+      `Fresh dedup pass ${dedupPass}: replaced ${count} inline duplicates`
+    );
+  }
+  const plugins = options.plugins ?? [];
+  const pluginContext = { spec: bundled, schemas, options, logger };
+  await runPluginHooks(plugins, 'afterDedup', pluginContext);
+  run.step('dedup');
+
+  // ── Step 4c: Slice by tag / operationId (opt-in) ──────────────────────────
+  // Runs after normalization so the surviving operations keep their
+  // component refs; a slice always prunes the schemas it no longer reaches.
+
+  const slicing =
+    options.includeTags !== undefined ||
+    options.excludeTags !== undefined ||
+    options.includeOperations !== undefined;
+  if (slicing) {
+    const removed = sliceOperations(bundled, options);
+    stats.excludedOperationCount = removed.length;
+    for (const op of removed) delete sortedEndpointMap[op];
+    logger.info(`Sliced spec: excluded ${removed.length} operations`);
+    run.step('slice');
+  }
+
+  // ── Step 4d: Prune unreachable component schemas (opt-in) ──────────────────
+  // Step 2 augmentation copies every component schema under specDir, whether
+  // or not an operation uses it. Semantic-key schemas are kept on a full
+  // bundle (SDKs emit their branded key types even when no operation
+  // references them), but not on a slice, which keeps only what it reaches.
+
+  if (options.pruneUnusedSchemas || slicing) {
+    stats.prunedSchemas = pruneUnreachableSchemas(
+      bundled,
+      schemas,
+      options.keepSchemas ?? [],
+      !slicing
     );
+    if (stats.prunedSchemas.length > 0) {
+      logger.info(
+        `Pruned ${stats.prunedSchemas.length} unreachable component schemas`
+      );
+    }
+    run.step('prune');
   }
 
   // ── Step 5: Validate ──────────────────────────────────────────────────────
@@ -1185,6 +1579,7 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
   // but could not be disambiguated. These will cause generator failures
   // (wrong type selection or literal path-segment type names).
   stats.ambiguousInlineCount = lastAmbiguous.length;
+  if (lastAmbiguous.length > 0) stats.ambiguousInlines = lastAmbiguous;
   if (lastAmbiguous.length > 0 && !options.allowAmbiguousInlines) {
     const details = lastAmbiguous
       .map(
@@ -1226,14 +1621,69 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
     );
   }
 
-  const paths = bundled['paths'] as Record<string, unknown> | undefined;
-  stats.pathCount = paths ? Object.keys(paths).length : 0;
-  stats.schemaCount = Object.keys(schemas).length;
+  // A ref whose target was never bundled or augmented (e.g. a component that
+  // lives in a YAML file Step 2 did not scan) silently degrades to `Object`
+  // in every generator.
+  const danglingRefs = findDanglingRefs(bundled);
+  stats.danglingRefCount = danglingRefs.length;
+  if (danglingRefs.length > 0 && !options.allowDanglingRefs) {
+    throw new Error(
+      `${danglingRefs.length} $ref(s) point at targets that do not exist in the bundle:\n` +
+        danglingRefs.map((r) => `  ${r}`).join('\n') +
+        `\n\nGenerators emit untyped objects for these. Set allowDanglingRefs ` +
+        `(CLI: --allow-dangling-refs) to bypass.`
+    );
+  }
+
+  // Structural check of the final document against the OpenAPI 3 schema.
+  const validateMode = options.validate ?? 'off';
+  if (validateMode !== 'off') {
+    const issues = await validateBundledSpec(bundled);
+    stats.validationIssueCount = issues.length;
+    if (issues.length > 0) {
+      const summary =
+        `Bundled spec failed OpenAPI validation with ${issues.length} issue(s):\n` +
+        formatValidationIssues(issues);
+      if (validateMode === 'error') {
+        throw new Error(
+          `${summary}\n\nSet validate to 'warn' (CLI: --validate warn) to report without failing.`
+        );
+      }
+      run.warn(summary);
+    }
+  }
+  run.step('validate');
+
+  // ── Step 5b: Canonical key ordering (opt-in) ──────────────────────────────
+  // Runs before metadata extraction so the IR's operation/schema order
+  // follows the canonical order too.
+  if (options.canonicalOrder) {
+    sortCanonically(bundled);
+    run.step('canonical-order');
+  }
 
   // ── Step 6: Extract metadata IR ───────────────────────────────────────────
 
-  const specHash = hashDirectoryTree(options.specDir);
-  const metadata = extractMetadata(bundled, schemas, specHash, sourceFileByOp);
+  // Plugins may add or drop paths and schemas, so count them afterwards.
+  await runPluginHooks(plugins, 'beforeMetadata', pluginContext);
+  const paths = bundled['paths'] as Record<string, unknown> | undefined;
+  stats.pathCount = paths ? Object.keys(paths).length : 0;
+  stats.schemaCount = Object.keys(schemas).length;
+  const metadata = extractMetadata(
+    bundled,
+    schemas,
+    specHash,
+    sourceFileByOp,
+    options.metadataExtractors
+  );
+  // Catch IR regressions here rather than in downstream generators.
+  const metadataIssues = validateSpecMetadata(metadata);
+  if (metadataIssues.length > 0) {
+    throw new Error(
+      `Metadata IR does not match the spec-metadata.json schema (${metadataIssues.length} issue(s)):\n` +
+        formatValidationIssues(metadataIssues)
+    );
+  }
 
   // ── Step 6b: Read sibling semantic-kinds.json (camunda/camunda-schema-bundler#28) ──
   //
@@ -1242,65 +1692,154 @@ export async function bundle(options: BundleOptions): Promise<BundleResult> {
   // verbatim if present; older refs predating camunda/camunda#52322 don't ship
   // one, in which case `semanticKinds` is null and no output file is written.
   //
-  // Read as a raw Buffer so the on-disk output is byte-identical to the source
-  // (avoids any UTF-8 round-trip surprises like BOM handling). Decode only for
-  // JSON.parse to populate the result.
+  // The output file is a verbatim byte copy of the source (see
+  // `renderOutputFiles()`), so no UTF-8 round-trip surprises like BOM handling
+  // leak into it; the file is only decoded here to populate the result.
   const semanticKindsPath = path.join(options.specDir, 'semantic-kinds.json');
-  let semanticKindsBuffer: Buffer | null = null;
   let semanticKinds: unknown = null;
   if (fs.existsSync(semanticKindsPath)) {
-    semanticKindsBuffer = fs.readFileSync(semanticKindsPath);
-    semanticKinds = JSON.parse(semanticKindsBuffer.toString('utf8'));
+    semanticKinds = JSON.parse(fs.readFileSync(semanticKindsPath, 'utf8'));
   }
+  run.step('metadata');
+
+  return {
+    spec: bundled,
+    metadata,
+    endpointMap: sortedEndpointMap,
+    semanticKinds,
+    stats,
+    decisionLog,
+  };
+}
 
-  // ── Step 7: Write outputs ─────────────────────────────────────────────────
-
-  if (options.outputSpec) {
-    const dir = path.dirname(options.outputSpec);
-    fs.mkdirSync(dir, { recursive: true });
-    fs.writeFileSync(
-      options.outputSpec,
-      JSON.stringify(bundled, null, 2) + '\n',
-      'utf8'
-    );
+/**
+ * Remove every operation that the slice options exclude, then every path item
+ * left without operations and every top-level tag no remaining operation
+ * uses. An operation is kept if it matches `includeTags` or
+ * `includeOperations` (or neither is given) and carries none of
+ * `excludeTags`. Path-local refs from kept operations into removed ones are
+ * replaced by a copy of their target. Returns the removed operations as
+ * `METHOD /path` keys, the endpoint map's format.
+ */
+function sliceOperations(
+  bundled: Record<string, unknown>,
+  options: Pick<BundleOptions, 'includeTags' | 'excludeTags' | 'includeOperations'>
+): string[] {
+  const includeTags = options.includeTags && new Set(options.includeTags);
+  const excludeTags = new Set(options.excludeTags ?? []);
+  const includeOps = options.includeOperations && new Set(options.includeOperations);
+  const hasInclude = includeTags !== undefined || includeOps !== undefined;
+
+  const removed: string[] = [];
+  const usedTags = new Set<string>();
+  const paths = (bundled['paths'] ?? {}) as Record<string, Record<string, unknown>>;
+  // Kept operations can hold path-local refs into removed ones; they are
+  // resolved against this copy once the slice is done.
+  const unsliced = { ...bundled, paths: JSON.parse(JSON.stringify(paths)) };
+
+  for (const [apiPath, pathItem] of Object.entries(paths)) {
+    if (!pathItem || typeof pathItem !== 'object') continue;
+    for (const method of Object.keys(pathItem)) {
+      if (!HTTP_METHODS.has(method)) continue;
+      const op = (pathItem[method] ?? {}) as Record<string, unknown>;
+      const tags = Array.isArray(op['tags']) ? (op['tags'] as string[]) : [];
+      const included =
+        !hasInclude ||
+        (includeTags !== undefined && tags.some((t) => includeTags.has(t))) ||
+        (includeOps !== undefined && includeOps.has(op['operationId'] as string));
+      if (included && !tags.some((t) => excludeTags.has(t))) {
+        for (const t of tags) usedTags.add(t);
+        continue;
+      }
+      delete pathItem[method];
+      removed.push(`${method.toUpperCase()} ${apiPath}`);
+    }
+    if (!Object.keys(pathItem).some((k) => HTTP_METHODS.has(k))) {
+      delete paths[apiPath];
+    }
   }
 
-  if (options.outputMetadata) {
-    const dir = path.dirname(options.outputMetadata);
-    fs.mkdirSync(dir, { recursive: true });
-    fs.writeFileSync(
-      options.outputMetadata,
-      JSON.stringify(metadata, null, 2) + '\n',
-      'utf8'
-    );
-  }
+  if (removed.length > 0) inlineSlicedPathRefs(bundled, unsliced);
 
-  if (options.outputEndpointMap) {
-    stats.endpointMapDeprecated = true;
-    console.warn(
-      '[camunda-schema-bundler] WARNING: endpoint-map.json is deprecated and ' +
-        'will be removed in 3.0.0. The same per-operation source file is now ' +
-        'available as `sourceFile` on each entry in `spec-metadata.json`\'s ' +
-        '`operations[]`. See https://github.com/camunda/camunda-schema-bundler/issues/21'
-    );
-    const dir = path.dirname(options.outputEndpointMap);
-    fs.mkdirSync(dir, { recursive: true });
-    fs.writeFileSync(
-      options.outputEndpointMap,
-      JSON.stringify(sortedEndpointMap, null, 2) + '\n',
-      'utf8'
+  if (Array.isArray(bundled['tags'])) {
+    bundled['tags'] = (bundled['tags'] as { name?: string }[]).filter(
+      (t) => t.name !== undefined && usedTags.has(t.name)
     );
   }
+  return removed;
+}
 
-  if (options.outputSemanticKinds && semanticKindsBuffer !== null) {
-    const dir = path.dirname(options.outputSemanticKinds);
-    fs.mkdirSync(dir, { recursive: true });
-    // Write the original bytes verbatim to preserve byte-identical parity
-    // with the upstream file.
-    fs.writeFileSync(options.outputSemanticKinds, semanticKindsBuffer);
+/**
+ * Replace every path-local `$ref` whose target was sliced away with a copy of
+ * that target from `unsliced`. Repeats because a copy can itself hold refs
+ * into removed operations; anything still dangling after that (a cycle) is
+ * left for the Step 5 guard to report.
+ */
+function inlineSlicedPathRefs(
+  bundled: Record<string, unknown>,
+  unsliced: Record<string, unknown>
+): void {
+  for (let pass = 1; pass <= 20; pass++) {
+    let inlined = 0;
+    const seen = new Set<unknown>();
+    const visit = (node: unknown): void => {
+      if (!node || typeof node !== 'object' || seen.has(node)) return;
+      seen.add(node);
+      if (Array.isArray(node)) {
+        node.forEach(visit);
+        return;
+      }
+      const obj = node as Record<string, unknown>;
+      const ref = obj['$ref'];
+      if (
+        typeof ref === 'string' &&
+        ref.startsWith('#/paths/') &&
+        resolveInternalRef(bundled, ref) === undefined
+      ) {
+        const target = resolveInternalRef(unsliced, ref);
+        if (target && typeof target === 'object') {
+          delete obj['$ref'];
+          Object.assign(obj, JSON.parse(JSON.stringify(target)));
+          inlined++;
+        }
+        return;
+      }
+      for (const value of Object.values(obj)) visit(value);
+    };
+    visit(bundled);
+    if (inlined === 0) return;
   }
+}
 
-  return { spec: bundled, metadata, endpointMap: sortedEndpointMap, semanticKinds, stats };
+/**
+ * Delete every component schema that is neither reachable from the rest of
+ * the document nor kept explicitly (`keep`, plus semantic-key schemas when
+ * `keepSemanticKeys` is set, and whatever those reference). Returns the
+ * pruned names, sorted.
+ */
+function pruneUnreachableSchemas(
+  bundled: Record<string, unknown>,
+  schemas: Record<string, unknown>,
+  keep: string[],
+  keepSemanticKeys: boolean
+): string[] {
+  const semanticKeySchemas = !keepSemanticKeys
+    ? []
+    : Object.entries(schemas)
+        .filter(([, s]) => {
+          const schema = (s ?? {}) as Record<string, unknown>;
+          return schema['x-semantic-key'] === true || !!schema['x-semantic-type'];
+        })
+        .map(([name]) => name);
+  const reachable = findReachableSchemas(bundled, [
+    ...semanticKeySchemas,
+    ...keep,
+  ]);
+  const pruned = Object.keys(schemas)
+    .filter((name) => !reachable.has(name))
+    .sort();
+  for (const name of pruned) delete schemas[name];
+  return pruned;
 }
 
 function ensureComponents(
@@ -0,0 +1,159 @@
+/**
+ * Content-addressed on-disk cache for bundle results.
+ *
+ * An entry is keyed by the spec directory's tree hash, the effective bundle
+ * options that influence the result, and the bundler version. A hit skips
+ * YAML parsing and normalization entirely; only the output files are
+ * (re)written from the cached result.
+ */
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { canonicalStringify } from './helpers.js';
+import type { BundleOptions, BundleResult } from './types.js';
+import { BUNDLER_VERSION } from './version.js';
+
+/**
+ * Options that only decide *where* and *how* results are written (or where
+ * the cache lives, or are only recorded in the report), not *what* is
+ * produced. Excluded from the cache key so that e.g. writing to a different
+ * output path still hits.
+ */
+const NON_KEY_OPTIONS = new Set<string>([
+  'specDir',
+  'cacheDir',
+  'outputSpec',
+  'outputSpecFormat',
+  'outputMetadata',
+  'outputEndpointMap',
+  'outputSemanticKinds',
+  'outputDecisionLog',
+  'outputReport',
+  'ref',
+  'commit',
+  'repoUrl',
+  'provenance',
+  'logger',
+]);
+
+/**
+ * Entries kept per cache directory. Each entry holds a full bundled spec, and
+ * every distinct spec tree (e.g. each save under `--watch`) adds one, so the
+ * least recently used entries beyond this are evicted on write.
+ */
+export const MAX_CACHE_ENTRIES = 20;
+
+/** Name of a cache entry file: `<sha256 key>.json`. */
+const ENTRY_FILE = /^[0-9a-f]{64}\.json$/;
+
+/**
+ * A cached result. The report describes a single run, so it is not cached,
+ * except for the warnings, which a hit re-emits.
+ */
+export interface CachedBundle {
+  result: Omit<BundleResult, 'report'>;
+
+  /** Warnings emitted while producing `result`, without the log prefix. */
+  warnings: string[];
+}
+
+interface CacheEntry extends CachedBundle {
+  key: string;
+  bundlerVersion: string;
+}
+
+/**
+ * Compute the cache key for bundling a spec tree with hash `specHash`
+ * under `options`. `options` must already have defaults applied for any
+ * value whose default could change between versions (entry file, merged
+ * manual overrides).
+ */
+export function bundleCacheKey(
+  specHash: string,
+  options: BundleOptions
+): string {
+  const keyed: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(options)) {
+    if (NON_KEY_OPTIONS.has(k) || v === undefined || typeof v === 'function')
+      continue;
+    keyed[k] = v;
+  }
+  return createHash('sha256')
+    .update(
+      canonicalStringify({
+        bundlerVersion: BUNDLER_VERSION,
+        specHash,
+        options: keyed,
+      })
+    )
+    .digest('hex');
+}
+
+/**
+ * Load the cached result for `key`, or `undefined` on a miss. Unreadable or
+ * corrupt entries are treated as misses (and overwritten on the next write).
+ */
+export function readCachedBundle(
+  cacheDir: string,
+  key: string
+): CachedBundle | undefined {
+  const file = cacheFile(cacheDir, key);
+  if (!fs.existsSync(file)) return undefined;
+  try {
+    const entry = JSON.parse(fs.readFileSync(file, 'utf8')) as CacheEntry;
+    if (
+      entry.key !== key ||
+      entry.bundlerVersion !== BUNDLER_VERSION ||
+      !Array.isArray(entry.warnings)
+    ) {
+      return undefined;
+    }
+    // Mark the entry as recently used, so eviction keeps it.
+    const now = new Date();
+    fs.utimesSync(file, now, now);
+    return { result: entry.result, warnings: entry.warnings };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Store `cached` under `key`. The entry is written to a temp file and
+ * renamed into place so concurrent bundles never observe a partial entry.
+ * Afterwards all but the `maxEntries` most recently used entries are deleted.
+ */
+export function writeCachedBundle(
+  cacheDir: string,
+  key: string,
+  cached: CachedBundle,
+  maxEntries = MAX_CACHE_ENTRIES
+): void {
+  fs.mkdirSync(cacheDir, { recursive: true });
+  const entry: CacheEntry = { key, bundlerVersion: BUNDLER_VERSION, ...cached };
+  const file = cacheFile(cacheDir, key);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(entry));
+  fs.renameSync(tmp, file);
+  evictCacheEntries(cacheDir, maxEntries);
+}
+
+/** Delete all but the `maxEntries` most recently used entries in `cacheDir`. */
+function evictCacheEntries(cacheDir: string, maxEntries: number): void {
+  const entries = fs
+    .readdirSync(cacheDir)
+    .filter((name) => ENTRY_FILE.test(name))
+    .map((name) => {
+      const file = path.join(cacheDir, name);
+      return { file, mtimeMs: fs.statSync(file).mtimeMs };
+    })
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+  for (const { file } of entries.slice(maxEntries)) {
+    // A concurrent bundle may already have removed it.
+    fs.rmSync(file, { force: true });
+  }
+}
+
+function cacheFile(cacheDir: string, key: string): string {
+  return path.join(cacheDir, `${key}.json`);
+}
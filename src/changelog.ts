@@ -0,0 +1,196 @@
+/**
+ * Generate a Markdown "API changes" changelog between two upstream refs.
+ *
+ * Both refs are fetched with `fetchSpec()` and bundled with `bundle()`; the
+ * changelog is rendered from the two metadata IRs, grouped by operation tag.
+ */
+import path from 'node:path';
+
+import { fetchSpec } from './fetch.js';
+import { bundle } from './bundle.js';
+import type { DiffInput } from './diff.js';
+import type { Logger } from './logger.js';
+import type { OperationSummary } from './types.js';
+
+export interface ChangelogOptions {
+  /** Older git ref (branch, tag, SHA). */
+  from: string;
+
+  /** Newer git ref (branch, tag, SHA). */
+  to: string;
+
+  /** Git repository URL. Default: https://github.com/camunda/camunda.git */
+  repoUrl?: string;
+
+  /** Local clone of the upstream repo to export both refs from instead of cloning. */
+  repoPath?: string;
+
+  /** Entry YAML file name (default: "rest-api.yaml"). */
+  entryFile?: string;
+
+  /**
+   * Directory the two refs are fetched into, one subdirectory per ref.
+   * Default: "external-spec/changelog".
+   */
+  workDir?: string;
+
+  /** Where fetch and bundle progress is logged. Default: the console. */
+  logger?: Logger;
+}
+
+export interface RenderChangelogOptions {
+  /** Label of the older side (usually its ref). */
+  from: string;
+
+  /** Label of the newer side (usually its ref). */
+  to: string;
+}
+
+const UNTAGGED = 'Untagged';
+
+/**
+ * Fetch and bundle both refs, then render the changelog between them.
+ */
+export async function generateChangelog(
+  options: ChangelogOptions
+): Promise<string> {
+  const workDir = options.workDir ?? path.join('external-spec', 'changelog');
+
+  const bundleRef = async (ref: string): Promise<DiffInput> => {
+    const fetchResult = await fetchSpec({
+      ref,
+      repoUrl: options.repoUrl,
+      repoPath: options.repoPath,
+      entryFile: options.entryFile,
+      outputDir: path.join(workDir, ref.replace(/[^\w.-]+/g, '_')),
+      logger: options.logger,
+    });
+    return bundle({
+      specDir: fetchResult.specDir,
+      entryFile: options.entryFile,
+      ref,
+      logger: options.logger,
+    });
+  };
+
+  // Sequential on purpose: each fetch is a full sparse clone.
+  const fromInput = await bundleRef(options.from);
+  const toInput = await bundleRef(options.to);
+
+  return renderChangelog(fromInput, toInput, {
+    from: options.from,
+    to: options.to,
+  });
+}
+
+/**
+ * Render the changelog between two metadata IRs.
+ *
+ * Per operation tag (from `OperationSummary.tags`; untagged operations are
+ * grouped under "Untagged") it lists new operations and operations that newly
+ * became eventually consistent. Schema-level changes that have no tag — newly
+ * deprecated enum members and new semantic keys — follow in their own sections.
+ */
+export function renderChangelog(
+  fromInput: DiffInput,
+  toInput: DiffInput,
+  options: RenderChangelogOptions
+): string {
+  const from = fromInput.metadata;
+  const to = toInput.metadata;
+
+  const oldOpIds = new Set(from.operations.map((op) => op.operationId));
+  const oldEventuallyConsistent = new Set(
+    from.eventuallyConsistentOps.map((op) => op.operationId)
+  );
+
+  const newOperations = to.operations.filter(
+    (op) => !oldOpIds.has(op.operationId)
+  );
+  const newEventuallyConsistent = to.operations.filter(
+    (op) => op.eventuallyConsistent && !oldEventuallyConsistent.has(op.operationId)
+  );
+
+  const byTag = new Map<string, { added: OperationSummary[]; ec: OperationSummary[] }>();
+  const group = (tag: string) => {
+    if (!byTag.has(tag)) byTag.set(tag, { added: [], ec: [] });
+    return byTag.get(tag)!;
+  };
+  for (const op of newOperations) {
+    for (const tag of tagsOf(op)) group(tag).added.push(op);
+  }
+  for (const op of newEventuallyConsistent) {
+    for (const tag of tagsOf(op)) group(tag).ec.push(op);
+  }
+
+  const oldDeprecated = new Set(
+    from.deprecatedEnumMembers.flatMap((e) =>
+      e.deprecatedMembers.map((m) => `${e.stableId}:${m.name}`)
+    )
+  );
+  const newDeprecated = to.deprecatedEnumMembers.flatMap((e) =>
+    e.deprecatedMembers
+      .filter((m) => !oldDeprecated.has(`${e.stableId}:${m.name}`))
+      .map((m) => ({ schemaName: e.schemaName, member: m }))
+  );
+
+  const oldSemanticKeys = new Set(from.semanticKeys.map((k) => k.stableId));
+  const newSemanticKeys = to.semanticKeys.filter(
+    (k) => !oldSemanticKeys.has(k.stableId)
+  );
+
+  const lines: string[] = [`## API changes: \`${options.from}\` → \`${options.to}\``, ''];
+
+  const tags = [...byTag.keys()].sort((a, b) =>
+    a === UNTAGGED ? 1 : b === UNTAGGED ? -1 : a.localeCompare(b)
+  );
+  for (const tag of tags) {
+    const { added, ec } = byTag.get(tag)!;
+    lines.push(`### ${tag}`, '');
+    if (added.length > 0) {
+      lines.push('**New operations**', '');
+      for (const op of sortById(added)) lines.push(formatOperation(op));
+      lines.push('');
+    }
+    if (ec.length > 0) {
+      lines.push('**New eventually consistent operations**', '');
+      for (const op of sortById(ec)) lines.push(formatOperation(op));
+      lines.push('');
+    }
+  }
+
+  if (newDeprecated.length > 0) {
+    lines.push('### Deprecated enum members', '');
+    for (const { schemaName, member } of newDeprecated) {
+      lines.push(
+        `- \`${schemaName}.${member.name}\` (deprecated in ${member.deprecatedInVersion})`
+      );
+    }
+    lines.push('');
+  }
+
+  if (newSemanticKeys.length > 0) {
+    lines.push('### New semantic keys', '');
+    for (const key of newSemanticKeys) {
+      lines.push(`- \`${key.name}\` (${key.category})`);
+    }
+    lines.push('');
+  }
+
+  if (lines.length === 2) lines.push('_No API changes._', '');
+
+  return lines.join('\n');
+}
+
+function tagsOf(op: OperationSummary): string[] {
+  return op.tags.length > 0 ? op.tags : [UNTAGGED];
+}
+
+function sortById(ops: OperationSummary[]): OperationSummary[] {
+  return [...ops].sort((a, b) => a.operationId.localeCompare(b.operationId));
+}
+
+function formatOperation(op: OperationSummary): string {
+  const summary = op.summary ? ` — ${op.summary}` : '';
+  return `- \`${op.operationId}\` (\`${op.method.toUpperCase()} ${op.path}\`)${summary}`;
+}
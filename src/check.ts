@@ -0,0 +1,169 @@
+/**
+ * Drift check: verify that committed bundle outputs are up to date.
+ *
+ * SDK repositories commit the bundled spec and metadata; `checkBundle()`
+ * bundles into memory and compares the result byte-for-byte against the
+ * output files on disk, without writing anything, so it can gate CI or a
+ * pre-commit hook.
+ */
+import fs from 'node:fs';
+
+import { parse as parseYaml } from 'yaml';
+
+import { bundle } from './bundle.js';
+import { canonicalStringify } from './helpers.js';
+import {
+  isOutputFileUpToDate,
+  renderAllOutputFiles,
+  withoutOutputPaths,
+  type OutputFile,
+} from './outputs.js';
+import type { BundleOptions, BundleProfile, BundleResult } from './types.js';
+
+export type OutputCheckStatus = 'up-to-date' | 'missing' | 'changed';
+
+export interface OutputCheck {
+  /** Output path, as given in the bundle options. */
+  path: string;
+
+  status: OutputCheckStatus;
+
+  /** 1-based line of the first difference. Only set for `changed`. */
+  firstDifferentLine?: number;
+
+  /**
+   * Top-level keys whose value differs, for JSON/YAML outputs that parse on
+   * both sides. Only set for `changed`; empty when only formatting or key
+   * order differs.
+   */
+  changedKeys?: string[];
+}
+
+export interface CheckResult {
+  /** True when every checked output matches the file on disk. */
+  upToDate: boolean;
+
+  /** One entry per checked output file, in output order. */
+  outputs: OutputCheck[];
+
+  /** The in-memory bundle the files were compared against. */
+  result: BundleResult;
+}
+
+/** Output paths that are checked; `outputReport` records timings, so it never matches. */
+const CHECKED_OUTPUTS = [
+  'outputSpec',
+  'outputMetadata',
+  'outputEndpointMap',
+  'outputSemanticKinds',
+  'outputDecisionLog',
+] as const;
+
+/**
+ * Bundle `options.specDir` in memory and compare every requested output file
+ * (including each profile's) against what is on disk.
+ *
+ * Nothing is written: neither the outputs nor the bundle cache (`cacheDir`
+ * is ignored). The bundle report (`outputReport`) is not checked.
+ */
+export async function checkBundle(options: BundleOptions): Promise<CheckResult> {
+  const variants: (BundleOptions | BundleProfile)[] = [
+    options,
+    ...(options.profiles ?? []),
+  ];
+  if (!variants.some((v) => CHECKED_OUTPUTS.some((key) => v[key]))) {
+    throw new Error(
+      'Nothing to check: no output paths are set ' +
+        '(CLI: --output-spec, --output-metadata, --output-semantic-kinds, ...)'
+    );
+  }
+
+  const result = await bundle({ ...withoutOutputPaths(options), cacheDir: undefined });
+  const outputs = renderAllOutputFiles(result, withoutReportPaths(options)).map(
+    checkOutputFile
+  );
+  return {
+    upToDate: outputs.every((o) => o.status === 'up-to-date'),
+    outputs,
+    result,
+  };
+}
+
+/**
+ * Render a check as one line per output that is not up to date, e.g.
+ * `rest-api.bundle.json: changed at line 42 (paths, components)`.
+ */
+export function formatCheck(check: CheckResult): string {
+  const stale = check.outputs.filter((o) => o.status !== 'up-to-date');
+  if (stale.length === 0) {
+    return `All ${check.outputs.length} output(s) are up to date`;
+  }
+  const lines = stale.map((o) => {
+    if (o.status === 'missing') return `  ${o.path}: missing`;
+    const keys = o.changedKeys?.length ? ` (${o.changedKeys.join(', ')})` : '';
+    return `  ${o.path}: changed at line ${o.firstDifferentLine}${keys}`;
+  });
+  return [
+    `${stale.length} of ${check.outputs.length} output(s) out of date:`,
+    ...lines,
+  ].join('\n');
+}
+
+function withoutReportPaths(options: BundleOptions): BundleOptions {
+  return {
+    ...options,
+    outputReport: undefined,
+    profiles: options.profiles?.map((p) => ({ ...p, outputReport: undefined })),
+  };
+}
+
+function checkOutputFile(file: OutputFile): OutputCheck {
+  if (!fs.existsSync(file.path)) {
+    return { path: file.path, status: 'missing' };
+  }
+  if (isOutputFileUpToDate(file)) {
+    return { path: file.path, status: 'up-to-date' };
+  }
+
+  const expected = file.content.toString();
+  const actual = fs.readFileSync(file.path, 'utf8');
+  const expectedLines = expected.split('\n');
+  const actualLines = actual.split('\n');
+  let line = 0;
+  while (line < expectedLines.length && expectedLines[line] === actualLines[line]) {
+    line++;
+  }
+
+  return {
+    path: file.path,
+    status: 'changed',
+    firstDifferentLine: line + 1,
+    changedKeys: diffTopLevelKeys(file.path, expected, actual),
+  };
+}
+
+/** Top-level keys whose values differ, or undefined if either side does not parse. */
+function diffTopLevelKeys(
+  file: string,
+  expected: string,
+  actual: string
+): string[] | undefined {
+  const parse = (text: string): unknown =>
+    /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+  let before: unknown;
+  let after: unknown;
+  try {
+    before = parse(actual);
+    after = parse(expected);
+  } catch {
+    return undefined;
+  }
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    !!v && typeof v === 'object' && !Array.isArray(v);
+  if (!isObject(before) || !isObject(after)) return undefined;
+
+  const keys = new Set([...Object.keys(after), ...Object.keys(before)]);
+  return [...keys].filter(
+    (key) => canonicalStringify(before[key]) !== canonicalStringify(after[key])
+  );
+}
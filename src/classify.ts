@@ -0,0 +1,470 @@
+/**
+ * Classify the entries of a `BundleDiff` as breaking, non-breaking or
+ * additive, from the point of view of a generated SDK's public surface.
+ *
+ * The rules are deliberately conservative: when a change cannot be proven
+ * compatible (e.g. any edit to a `pattern`, whose narrowing is undecidable in
+ * general) it is reported as breaking, so SDK CI errs on the side of a major
+ * bump rather than an unannounced break.
+ */
+import { canonicalStringify } from './helpers.js';
+import { changedTopLevelFields, diffBundles } from './diff.js';
+import type { BundleDiff, DiffEntry, DiffInput, DiffSection } from './diff.js';
+import type {
+  OperationSummary,
+  OperationQueryParam,
+  SchemaConstraints,
+  SemanticKeyEntry,
+  UnionEntry,
+  DeprecatedEnumSchemaEntry,
+} from './types.js';
+
+export type ChangeSeverity = 'breaking' | 'non-breaking' | 'additive';
+
+export interface ClassifiedChange {
+  /** Diff section the change belongs to. */
+  section: DiffSection;
+
+  /** Identity of the changed entry (`operationId`, schema name or `stableId`). */
+  id: string;
+
+  severity: ChangeSeverity;
+
+  /** Human-readable explanation (e.g. `query parameter "sort" removed`). */
+  reason: string;
+}
+
+/**
+ * Schema keywords whose modification changes the shape of the generated type.
+ * Edits to any other keyword (`description`, `example`, `x-*`, …) are
+ * non-breaking unless handled explicitly below.
+ */
+const STRUCTURAL_SCHEMA_KEYS = new Set([
+  '$ref',
+  'type',
+  'format',
+  'items',
+  'allOf',
+  'oneOf',
+  'anyOf',
+  'discriminator',
+  'additionalProperties',
+  'nullable',
+]);
+
+/** Operation fields whose change alters the call signature. */
+const SIGNATURE_OPERATION_FIELDS = new Set(['path', 'method', 'pathParams', 'successStatus']);
+
+/**
+ * Diff two bundles and classify every change. Request schemas — those an
+ * operation sends as its body, directly or through nested `$ref`s — are
+ * derived from both inputs so that a newly required property is only treated
+ * as breaking where a client has to supply it.
+ */
+export function classifyChanges(
+  oldInput: DiffInput,
+  newInput: DiffInput
+): ClassifiedChange[] {
+  return classifyDiff(
+    diffBundles(oldInput, newInput),
+    collectRequestSchemas([oldInput, newInput])
+  );
+}
+
+/**
+ * Classify an already-computed diff. `requestSchemas` names the component
+ * schemas that appear in request bodies (see {@link classifyChanges}).
+ */
+export function classifyDiff(
+  diff: BundleDiff,
+  requestSchemas: ReadonlySet<string> = new Set()
+): ClassifiedChange[] {
+  return [
+    ...diff.operations.flatMap((entry) =>
+      classifyEntry('operations', entry, 'operation', classifyOperation)
+    ),
+    ...diff.schemas.flatMap((entry) =>
+      classifyEntry('schemas', entry, 'schema', (e) =>
+        classifySchema(e, requestSchemas.has(e.id))
+      )
+    ),
+    ...diff.semanticKeys.flatMap((entry) =>
+      classifyEntry('semanticKeys', entry, 'semantic key', classifySemanticKey)
+    ),
+    ...diff.unions.flatMap((entry) =>
+      classifyEntry('unions', entry, 'union', classifyUnion)
+    ),
+    ...diff.deprecatedEnumMembers.flatMap((entry): ClassifiedChange[] => {
+      // Deprecating (or un-deprecating) members never changes the surface.
+      if (entry.kind !== 'changed') {
+        const reason =
+          entry.kind === 'added'
+            ? 'enum members deprecated'
+            : 'no longer has deprecated enum members';
+        return [{ section: 'deprecatedEnumMembers', id: entry.id, severity: 'non-breaking', reason }];
+      }
+      // With both specs available, removed enum values are already reported
+      // (once) against the component schema's `enum` keyword.
+      return classifyEntry('deprecatedEnumMembers', entry, 'schema', (e) =>
+        classifyDeprecatedEnum(e, !diff.schemasCompared)
+      );
+    }),
+  ];
+}
+
+/** True when any classified change is breaking. */
+export function hasBreakingChanges(changes: ClassifiedChange[]): boolean {
+  return changes.some((c) => c.severity === 'breaking');
+}
+
+/**
+ * Render classified changes as text, breaking changes first, one line per
+ * change: `[breaking] operations getJob: query parameter "sort" removed`.
+ */
+export function formatClassification(changes: ClassifiedChange[]): string {
+  if (changes.length === 0) return 'No API changes.';
+  const order: ChangeSeverity[] = ['breaking', 'non-breaking', 'additive'];
+  return order
+    .flatMap((severity) => changes.filter((c) => c.severity === severity))
+    .map((c) => `[${c.severity}] ${c.section} ${c.id}: ${c.reason}`)
+    .join('\n');
+}
+
+type Finding = [ChangeSeverity, string];
+
+/** Additions are additive, removals breaking; changes are up to `classifyChanged`. */
+function classifyEntry<T>(
+  section: DiffSection,
+  entry: DiffEntry<T>,
+  noun: string,
+  classifyChanged: (entry: DiffEntry<T>) => Finding[]
+): ClassifiedChange[] {
+  const findings: Finding[] =
+    entry.kind === 'added'
+      ? [['additive', `${noun} added`]]
+      : entry.kind === 'removed'
+        ? [['breaking', `${noun} removed`]]
+        : classifyChanged(entry);
+  return findings.map(([severity, reason]) => ({ section, id: entry.id, severity, reason }));
+}
+
+function classifyOperation(entry: DiffEntry<OperationSummary>): Finding[] {
+  const before = entry.before!;
+  const after = entry.after!;
+  const findings: Finding[] = [];
+
+  for (const field of entry.changedFields ?? []) {
+    switch (field) {
+      case 'queryParams':
+        findings.push(...classifyQueryParams(before.queryParams, after.queryParams));
+        break;
+      case 'requestBodySchemaRef':
+        findings.push([
+          'breaking',
+          `request body schema changed from ${before.requestBodySchemaRef ?? '(none)'} to ${after.requestBodySchemaRef ?? '(none)'}`,
+        ]);
+        break;
+      case 'successResponseSchemaRef':
+        findings.push([
+          before.successResponseSchemaRef === undefined ? 'additive' : 'breaking',
+          `success response schema changed from ${before.successResponseSchemaRef ?? '(none)'} to ${after.successResponseSchemaRef ?? '(none)'}`,
+        ]);
+        break;
+      case 'requestBodyUnionRefs':
+        findings.push(...classifyMembers('request body variant', before.requestBodyUnionRefs, after.requestBodyUnionRefs));
+        break;
+      case 'requestBodyContentTypes':
+        findings.push(...classifyMembers('request content type', before.requestBodyContentTypes, after.requestBodyContentTypes));
+        break;
+      case 'hasRequestBody':
+        findings.push([
+          'breaking',
+          after.hasRequestBody ? 'request body added' : 'request body removed',
+        ]);
+        break;
+      default:
+        findings.push([
+          SIGNATURE_OPERATION_FIELDS.has(field) ? 'breaking' : 'non-breaking',
+          `${field} changed`,
+        ]);
+    }
+  }
+
+  return findings;
+}
+
+function classifyQueryParams(
+  before: OperationQueryParam[],
+  after: OperationQueryParam[]
+): Finding[] {
+  const findings: Finding[] = [];
+  const oldByName = new Map(before.map((p) => [p.name, p]));
+  const newByName = new Map(after.map((p) => [p.name, p]));
+
+  for (const [name, param] of oldByName) {
+    const next = newByName.get(name);
+    if (!next) findings.push(['breaking', `query parameter "${name}" removed`]);
+    else if (!param.required && next.required)
+      findings.push(['breaking', `query parameter "${name}" is now required`]);
+    else if (param.required && !next.required)
+      findings.push(['non-breaking', `query parameter "${name}" is now optional`]);
+  }
+  for (const [name, param] of newByName) {
+    if (oldByName.has(name)) continue;
+    findings.push(
+      param.required
+        ? ['breaking', `required query parameter "${name}" added`]
+        : ['additive', `optional query parameter "${name}" added`]
+    );
+  }
+
+  return findings;
+}
+
+function classifySchema(
+  entry: DiffEntry<Record<string, unknown>>,
+  isRequestSchema: boolean
+): Finding[] {
+  const before = entry.before!;
+  const after = entry.after!;
+  const findings: Finding[] = [];
+
+  for (const field of entry.changedFields ?? []) {
+    switch (field) {
+      case 'required': {
+        const added = difference(stringArray(after['required']), stringArray(before['required']));
+        const removed = difference(stringArray(before['required']), stringArray(after['required']));
+        for (const name of added) {
+          findings.push(
+            isRequestSchema
+              ? ['breaking', `property "${name}" is now required in a request schema`]
+              : ['non-breaking', `property "${name}" is now required`]
+          );
+        }
+        for (const name of removed) findings.push(['non-breaking', `property "${name}" is no longer required`]);
+        break;
+      }
+      case 'enum':
+        findings.push(...classifyMembers('enum value', stringArray(before['enum']), stringArray(after['enum'])));
+        break;
+      case 'properties': {
+        const oldProps = (before['properties'] ?? {}) as Record<string, unknown>;
+        const newProps = (after['properties'] ?? {}) as Record<string, unknown>;
+        for (const name of Object.keys(oldProps)) {
+          if (!(name in newProps)) {
+            findings.push(['breaking', `property "${name}" removed`]);
+            continue;
+          }
+          // A property is itself a schema: classify its changed keywords with
+          // the same rules, so doc-only edits stay non-breaking.
+          const propertyFindings = classifySchema(
+            {
+              id: name,
+              kind: 'changed',
+              before: (oldProps[name] ?? {}) as Record<string, unknown>,
+              after: (newProps[name] ?? {}) as Record<string, unknown>,
+              changedFields: changedTopLevelFields(oldProps[name], newProps[name]),
+            },
+            isRequestSchema
+          );
+          for (const [severity, reason] of propertyFindings) {
+            findings.push([severity, `property "${name}": ${reason}`]);
+          }
+        }
+        for (const name of Object.keys(newProps)) {
+          if (!(name in oldProps)) findings.push(['additive', `property "${name}" added`]);
+        }
+        break;
+      }
+      case 'pattern':
+      case 'minLength':
+      case 'maxLength':
+        findings.push(
+          ...classifyConstraints(
+            pickConstraints(before),
+            pickConstraints(after),
+            [field]
+          )
+        );
+        break;
+      default:
+        findings.push([
+          STRUCTURAL_SCHEMA_KEYS.has(field) ? 'breaking' : 'non-breaking',
+          `${field} changed`,
+        ]);
+    }
+  }
+
+  return findings;
+}
+
+function classifySemanticKey(entry: DiffEntry<SemanticKeyEntry>): Finding[] {
+  const before = entry.before!;
+  const after = entry.after!;
+  const findings: Finding[] = [];
+
+  for (const field of entry.changedFields ?? []) {
+    if (field === 'constraints') {
+      findings.push(
+        ...classifyConstraints(before.constraints, after.constraints, [
+          'pattern',
+          'minLength',
+          'maxLength',
+          'format',
+        ])
+      );
+    } else if (field === 'semanticType' || field === 'category') {
+      findings.push(['breaking', `${field} changed from ${before[field]} to ${after[field]}`]);
+    } else {
+      findings.push(['non-breaking', `${field} changed`]);
+    }
+  }
+
+  return findings;
+}
+
+function classifyUnion(entry: DiffEntry<UnionEntry>): Finding[] {
+  const before = entry.before!;
+  const after = entry.after!;
+  const findings: Finding[] = [];
+
+  for (const field of entry.changedFields ?? []) {
+    if (field === 'branches') {
+      findings.push(
+        ...classifyMembers(
+          'branch',
+          before.branches.map((b) => canonicalStringify(b)),
+          after.branches.map((b) => canonicalStringify(b))
+        )
+      );
+    } else if (field === 'kind') {
+      findings.push(['breaking', `kind changed from ${before.kind} to ${after.kind}`]);
+    } else {
+      findings.push(['non-breaking', `${field} changed`]);
+    }
+  }
+
+  return findings;
+}
+
+function classifyDeprecatedEnum(
+  entry: DiffEntry<DeprecatedEnumSchemaEntry>,
+  includeEnumValues: boolean
+): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const field of entry.changedFields ?? []) {
+    if (field === 'enumValues') {
+      if (includeEnumValues) {
+        findings.push(
+          ...classifyMembers('enum value', entry.before!.enumValues, entry.after!.enumValues)
+        );
+      }
+    } else {
+      findings.push(['non-breaking', `${field} changed`]);
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Tightened constraints are breaking: a changed or newly added `pattern` (its
+ * narrowing cannot be decided, so any edit counts), a raised `minLength`, a
+ * lowered `maxLength`, or a changed `format`. Relaxations are non-breaking.
+ */
+function classifyConstraints(
+  before: SchemaConstraints,
+  after: SchemaConstraints,
+  keys: (keyof SchemaConstraints)[]
+): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const key of keys) {
+    const b = before[key];
+    const a = after[key];
+    if (b === a) continue;
+
+    let tightened: boolean;
+    if (key === 'minLength') tightened = ((a as number | undefined) ?? 0) > ((b as number | undefined) ?? 0);
+    else if (key === 'maxLength') tightened = a !== undefined && (b === undefined || (a as number) < (b as number));
+    else tightened = a !== undefined;
+
+    findings.push([
+      tightened ? 'breaking' : 'non-breaking',
+      `${key} changed from ${b ?? '(none)'} to ${a ?? '(none)'}`,
+    ]);
+  }
+
+  return findings;
+}
+
+/** Removed members are breaking, added members additive. */
+function classifyMembers(label: string, before: string[], after: string[]): Finding[] {
+  return [
+    ...difference(before, after).map((m): Finding => ['breaking', `${label} ${m} removed`]),
+    ...difference(after, before).map((m): Finding => ['additive', `${label} ${m} added`]),
+  ];
+}
+
+function pickConstraints(schema: Record<string, unknown>): SchemaConstraints {
+  const c: SchemaConstraints = {};
+  if (typeof schema['pattern'] === 'string') c.pattern = schema['pattern'];
+  if (typeof schema['minLength'] === 'number') c.minLength = schema['minLength'];
+  if (typeof schema['maxLength'] === 'number') c.maxLength = schema['maxLength'];
+  return c;
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+function difference(a: string[], b: string[]): string[] {
+  const other = new Set(b);
+  return a.filter((x) => !other.has(x));
+}
+
+/**
+ * Names of component schemas sent as request bodies by any operation in the
+ * given inputs, closed over nested `$ref`s between component schemas when a
+ * bundled spec is available.
+ */
+function collectRequestSchemas(inputs: DiffInput[]): Set<string> {
+  const result = new Set<string>();
+
+  for (const input of inputs) {
+    const schemas = ((input.spec?.['components'] as Record<string, unknown> | undefined)?.[
+      'schemas'
+    ] ?? {}) as Record<string, unknown>;
+
+    const queue: string[] = [];
+    for (const op of input.metadata.operations) {
+      if (op.requestBodySchemaRef) queue.push(op.requestBodySchemaRef);
+      queue.push(...op.requestBodyUnionRefs);
+    }
+
+    while (queue.length) {
+      const name = queue.pop()!;
+      if (result.has(name)) continue;
+      result.add(name);
+      collectSchemaRefNames(schemas[name], queue);
+    }
+  }
+
+  return result;
+}
+
+function collectSchemaRefNames(node: unknown, out: string[]): void {
+  if (!node || typeof node !== 'object') return;
+  if (Array.isArray(node)) {
+    for (const item of node) collectSchemaRefNames(item, out);
+    return;
+  }
+  const obj = node as Record<string, unknown>;
+  const ref = obj['$ref'];
+  if (typeof ref === 'string' && ref.startsWith('#/components/schemas/')) {
+    out.push(ref.slice('#/components/schemas/'.length));
+    return;
+  }
+  for (const v of Object.values(obj)) collectSchemaRefNames(v, out);
+}
@@ -0,0 +1,320 @@
+/**
+ * Command-line argument parsing for the bundling commands (the default
+ * command and `check`), and merging of config file values into the result.
+ */
+import type { BundlerConfig } from './config.js';
+import type { LogFormat } from './logger.js';
+import type { SpecOutputFormat, ValidationMode } from './types.js';
+
+/**
+ * Parsed bundling options. Booleans that a config file can also set are
+ * `undefined` unless given on the command line (`--x` or `--no-x`).
+ */
+export interface CliArgs {
+  fetch: boolean;
+  specDir?: string;
+  ref?: string;
+  autoRef?: boolean;
+  repoUrl?: string;
+  repoPath?: string;
+  archivePath?: string;
+  lockFile?: string;
+  locked?: boolean;
+  fetchTimeoutMs?: number;
+  fetchRetries?: number;
+  outputDir?: string;
+  entryFile?: string;
+  outputSpec?: string;
+  outputFormat?: SpecOutputFormat;
+  outputMetadata?: string;
+  outputEndpointMap?: string;
+  outputSemanticKinds?: string;
+  outputDecisionLog?: string;
+  outputReport?: string;
+  overrides?: string;
+  derefPathLocal?: boolean;
+  allowLikeRefs?: boolean;
+  allowParamRefs?: boolean;
+  allowAmbiguousInlines?: boolean;
+  allowDanglingRefs?: boolean;
+  pruneUnusedSchemas?: boolean;
+  keepSchemas: string[];
+  includeTags: string[];
+  excludeTags: string[];
+  includeOperations: string[];
+  canonicalOrder?: boolean;
+  provenance?: boolean;
+  validate?: ValidationMode;
+  skipFetchIfExists?: boolean;
+  watch: boolean;
+  profiles?: string;
+  cacheDir?: string;
+  /** False with `--no-cache`. */
+  cache?: boolean;
+  config?: string;
+  quiet: boolean;
+  verbose: boolean;
+  logFormat?: LogFormat;
+  printMetadataSchema: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+/** Parse `argv` (including the node and script entries). Exits on an invalid option. */
+export function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    fetch: false,
+    keepSchemas: [],
+    includeTags: [],
+    excludeTags: [],
+    includeOperations: [],
+    watch: false,
+    quiet: false,
+    verbose: false,
+    printMetadataSchema: false,
+    help: false,
+    version: false,
+  };
+
+  for (let i = 2; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--fetch':
+        args.fetch = true;
+        break;
+      case '--spec-dir':
+        args.specDir = argv[++i];
+        break;
+      case '--ref':
+        args.ref = argv[++i];
+        break;
+      case '--auto-ref':
+      case '--no-auto-ref':
+        args.autoRef = !argv[i].startsWith('--no-');
+        break;
+      case '--repo-url':
+        args.repoUrl = argv[++i];
+        break;
+      case '--repo-path':
+        args.repoPath = argv[++i];
+        break;
+      case '--from-archive':
+        args.archivePath = argv[++i];
+        break;
+      case '--lock-file':
+        args.lockFile = argv[++i];
+        break;
+      case '--locked':
+      case '--no-locked':
+        args.locked = !argv[i].startsWith('--no-');
+        break;
+      case '--fetch-timeout': {
+        const value = argv[++i];
+        // The range is checked by fetchSpec(), as for config files.
+        if (!/^\d+$/.test(value ?? '')) {
+          console.error(`Invalid --fetch-timeout: ${value} (expected a number of seconds)`);
+          process.exit(1);
+        }
+        args.fetchTimeoutMs = Number(value) * 1000;
+        break;
+      }
+      case '--fetch-retries': {
+        const value = argv[++i];
+        if (!/^\d+$/.test(value ?? '')) {
+          console.error(`Invalid --fetch-retries: ${value} (expected a non-negative integer)`);
+          process.exit(1);
+        }
+        args.fetchRetries = Number(value);
+        break;
+      }
+      case '--output-dir':
+        args.outputDir = argv[++i];
+        break;
+      case '--entry-file':
+        args.entryFile = argv[++i];
+        break;
+      case '--output-spec':
+        args.outputSpec = argv[++i];
+        break;
+      case '--output-format': {
+        const value = argv[++i];
+        if (value !== 'json' && value !== 'yaml') {
+          console.error(`Invalid --output-format: ${value} (expected json or yaml)`);
+          process.exit(1);
+        }
+        args.outputFormat = value;
+        break;
+      }
+      case '--output-metadata':
+        args.outputMetadata = argv[++i];
+        break;
+      case '--output-endpoint-map':
+        args.outputEndpointMap = argv[++i];
+        break;
+      case '--output-semantic-kinds':
+        args.outputSemanticKinds = argv[++i];
+        break;
+      case '--output-decision-log':
+        args.outputDecisionLog = argv[++i];
+        break;
+      case '--output-report':
+        args.outputReport = argv[++i];
+        break;
+      case '--overrides':
+        args.overrides = argv[++i];
+        break;
+      case '--deref-path-local':
+      case '--no-deref-path-local':
+        args.derefPathLocal = !argv[i].startsWith('--no-');
+        break;
+      case '--allow-like-refs':
+      case '--no-allow-like-refs':
+        args.allowLikeRefs = !argv[i].startsWith('--no-');
+        break;
+      case '--allow-param-refs':
+      case '--no-allow-param-refs':
+        args.allowParamRefs = !argv[i].startsWith('--no-');
+        break;
+      case '--allow-ambiguous-inlines':
+      case '--no-allow-ambiguous-inlines':
+        args.allowAmbiguousInlines = !argv[i].startsWith('--no-');
+        break;
+      case '--allow-dangling-refs':
+      case '--no-allow-dangling-refs':
+        args.allowDanglingRefs = !argv[i].startsWith('--no-');
+        break;
+      case '--prune-unused-schemas':
+      case '--no-prune-unused-schemas':
+        args.pruneUnusedSchemas = !argv[i].startsWith('--no-');
+        break;
+      case '--keep-schema':
+        args.keepSchemas.push(argv[++i]);
+        break;
+      case '--include-tag':
+        args.includeTags.push(argv[++i]);
+        break;
+      case '--exclude-tag':
+        args.excludeTags.push(argv[++i]);
+        break;
+      case '--include-operation':
+        args.includeOperations.push(argv[++i]);
+        break;
+      case '--validate': {
+        const value = argv[++i];
+        if (value !== 'off' && value !== 'warn' && value !== 'error') {
+          console.error(`Invalid --validate: ${value} (expected off, warn or error)`);
+          process.exit(1);
+        }
+        args.validate = value;
+        break;
+      }
+      case '--canonical-order':
+      case '--no-canonical-order':
+        args.canonicalOrder = !argv[i].startsWith('--no-');
+        break;
+      case '--provenance':
+      case '--no-provenance':
+        args.provenance = !argv[i].startsWith('--no-');
+        break;
+      case '--skip-fetch-if-exists':
+      case '--no-skip-fetch-if-exists':
+        args.skipFetchIfExists = !argv[i].startsWith('--no-');
+        break;
+      case '--watch':
+        args.watch = true;
+        break;
+      case '--profiles':
+        args.profiles = argv[++i];
+        break;
+      case '--cache-dir':
+        args.cacheDir = argv[++i];
+        break;
+      case '--cache':
+      case '--no-cache':
+        args.cache = argv[i] === '--cache';
+        break;
+      case '--config':
+        args.config = argv[++i];
+        break;
+      case '--quiet':
+      case '-q':
+        args.quiet = true;
+        break;
+      case '--verbose':
+        args.verbose = true;
+        break;
+      case '--log-format': {
+        const value = argv[++i];
+        if (value !== 'text' && value !== 'json') {
+          console.error(`Invalid --log-format: ${value} (expected text or json)`);
+          process.exit(1);
+        }
+        args.logFormat = value;
+        break;
+      }
+      case '--print-metadata-schema':
+        args.printMetadataSchema = true;
+        break;
+      case '--help':
+      case '-h':
+        args.help = true;
+        break;
+      case '--version':
+      case '-v':
+        args.version = true;
+        break;
+      default:
+        console.error(`Unknown option: ${argv[i]}`);
+        process.exit(1);
+    }
+  }
+
+  return args;
+}
+
+
+/**
+ * Fill every option not given on the command line from the config file, or
+ * its default. Anything given on the command line wins, including a `--no-x`
+ * over a `true` in the config; repeatable flags replace the config list when
+ * given at all.
+ */
+export function applyConfig(args: CliArgs, config: BundlerConfig): void {
+  args.specDir ??= config.specDir;
+  args.ref ??= config.ref;
+  args.autoRef ??= config.autoRef ?? false;
+  args.repoUrl ??= config.repoUrl;
+  args.repoPath ??= config.repoPath;
+  args.archivePath ??= config.archivePath;
+  args.lockFile ??= config.lockFile;
+  args.locked ??= config.locked ?? false;
+  args.fetchTimeoutMs ??= config.fetchTimeoutMs;
+  args.fetchRetries ??= config.fetchRetries;
+  args.outputDir ??= config.outputDir;
+  args.skipFetchIfExists ??= config.skipFetchIfExists ?? false;
+  args.entryFile ??= config.entryFile;
+  args.outputSpec ??= config.outputSpec;
+  args.outputFormat ??= config.outputSpecFormat;
+  args.outputMetadata ??= config.outputMetadata;
+  args.outputEndpointMap ??= config.outputEndpointMap;
+  args.outputSemanticKinds ??= config.outputSemanticKinds;
+  args.outputDecisionLog ??= config.outputDecisionLog;
+  args.outputReport ??= config.outputReport;
+  args.derefPathLocal ??= config.dereferencePathLocalRefs ?? false;
+  args.allowLikeRefs ??= config.allowPathLocalLikeRefs ?? false;
+  args.allowParamRefs ??= config.allowPathLocalParameterRefs ?? false;
+  args.allowAmbiguousInlines ??= config.allowAmbiguousInlines ?? false;
+  args.allowDanglingRefs ??= config.allowDanglingRefs ?? false;
+  args.pruneUnusedSchemas ??= config.pruneUnusedSchemas ?? false;
+  if (args.keepSchemas.length === 0) args.keepSchemas = config.keepSchemas ?? [];
+  if (args.includeTags.length === 0) args.includeTags = config.includeTags ?? [];
+  if (args.excludeTags.length === 0) args.excludeTags = config.excludeTags ?? [];
+  if (args.includeOperations.length === 0) {
+    args.includeOperations = config.includeOperations ?? [];
+  }
+  args.validate ??= config.validate;
+  args.canonicalOrder ??= config.canonicalOrder ?? false;
+  args.provenance ??= config.provenance ?? false;
+  args.cache ??= config.cache ?? true;
+  args.cacheDir ??= config.cacheDir;
+}
+
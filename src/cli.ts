@@ -4,6 +4,9 @@
  *
  * Usage:
  *   camunda-schema-bundler [options]
+ *   camunda-schema-bundler check [options]
+ *   camunda-schema-bundler diff <old> <new> [--format text|json] [--fail-on-breaking]
+ *   camunda-schema-bundler changelog --from <ref> --to <ref> [--output <path>]
  *
  * Modes:
  *   --fetch                   Fetch upstream spec before bundling (default if no --spec-dir)
@@ -12,131 +15,113 @@
  * Fetch options:
  *   --ref <ref>               Git ref to fetch (default: main)
  *   --repo-url <url>          Git repo URL (default: camunda/camunda)
+ *   --repo-path <dir>         Export the spec from a local clone instead (offline)
+ *   --from-archive <file>     Extract the spec from a .tar.gz/.tgz/.tar/.zip repo archive (offline)
+ *   --lock-file <path>        Lock file recording the fetched commit and tree hash (default: spec.lock.json)
+ *   --locked                  Fetch the commit pinned in the lock file; fail if the tree hash differs
+ *   --fetch-timeout <sec>     Time limit per git command (default: 120)
+ *   --fetch-retries <n>       Retries of a failed clone, with backoff (default: 2)
  *   --output-dir <path>       Directory for fetched spec (default: external-spec/upstream/...)
  *
  * Bundle options:
  *   --entry-file <name>       Entry YAML file name (default: rest-api.yaml)
- *   --output-spec <path>      Output path for bundled JSON spec
+ *   --output-spec <path>      Output path for bundled spec
+ *   --output-format <fmt>     Format of the bundled spec: json (default) or yaml
  *   --output-metadata <path>  Output path for metadata IR JSON
  *   --output-endpoint-map <path>  Output path for endpoint map JSON
  *   --output-semantic-kinds <path>  Output path for the semantic-kinds.json registry
+ *   --output-decision-log <path>  Output path for the normalization decision log JSON
+ *   --output-report <path>    Output path for the machine-readable bundle report JSON
+ *   --overrides <file>        JSON/YAML map of path-local $ref → component schema name
  *   --deref-path-local        Inline remaining path-local $refs (for Microsoft.OpenApi)
  *   --allow-like-refs         Don't fail on surviving path-local $like refs
  *   --allow-param-refs        Don't fail on surviving path-local $refs in parameters
  *   --allow-ambiguous-inlines Don't fail on ambiguous inline schemas
+ *   --allow-dangling-refs     Don't fail on $refs whose target does not exist
+ *   --prune-unused-schemas    Drop component schemas no operation reaches
+ *   --keep-schema <name>      Keep a schema when pruning (repeatable)
+ *   --include-tag <tag>       Keep only operations with this tag (repeatable)
+ *   --exclude-tag <tag>       Drop operations with this tag (repeatable)
+ *   --include-operation <id>  Keep only this operationId (repeatable)
+ *   --validate <mode>         Validate the bundle against the OpenAPI 3 schema: off|warn|error
+ *   --canonical-order         Sort paths, components and schema properties by key
+ *   --provenance              Embed ref, commit, spec hash and options in info.x-camunda-bundle
+ *   --watch                   Re-bundle whenever files under the spec dir change
+ *   --profiles <file>         JSON/YAML list of extra output variants to finish from one parse
+ *   --cache-dir <path>        Bundle cache directory (default: external-spec/.bundle-cache)
+ *   --no-cache                Always bundle from scratch; don't read or write the cache
+                              (config: cache: false; --cache turns it back on)
+ *   --config <file>           JSON/YAML config file (default: camunda-schema-bundler.config.* in cwd)
+ *   --quiet, -q               Only log warnings and errors
+ *   --verbose                 Also log debug detail (step timings, git commands)
+ *   --log-format <fmt>        Log line format: text (default) or json
+ *   --print-metadata-schema   Print the JSON Schema of spec-metadata.json and exit
  *   --help                    Show help
  */
+import fs from 'node:fs';
 import path from 'node:path';
 import { bundle } from './bundle.js';
-import { fetchSpec, DEFAULT_SPEC_DIR, specDirForRef } from './fetch.js';
+import {
+  fetchSpec,
+  readSpecLock,
+  DEFAULT_SPEC_DIR,
+  specDirForRef,
+} from './fetch.js';
 import { detectUpstreamRef } from './detect-ref.js';
-
-interface CliArgs {
-  fetch: boolean;
-  specDir?: string;
-  ref?: string;
-  autoRef: boolean;
-  repoUrl?: string;
-  outputDir?: string;
-  entryFile?: string;
-  outputSpec?: string;
-  outputMetadata?: string;
-  outputEndpointMap?: string;
-  outputSemanticKinds?: string;
-  derefPathLocal: boolean;
-  allowLikeRefs: boolean;
-  allowParamRefs: boolean;
-  allowAmbiguousInlines: boolean;
-  skipFetchIfExists: boolean;
-  help: boolean;
-  version: boolean;
-}
-
-function parseArgs(argv: string[]): CliArgs {
-  const args: CliArgs = {
-    fetch: false,
-    autoRef: false,
-    derefPathLocal: false,
-    allowLikeRefs: false,
-    allowParamRefs: false,
-    allowAmbiguousInlines: false,
-    skipFetchIfExists: false,
-    help: false,
-    version: false,
-  };
-
-  for (let i = 2; i < argv.length; i++) {
-    switch (argv[i]) {
-      case '--fetch':
-        args.fetch = true;
-        break;
-      case '--spec-dir':
-        args.specDir = argv[++i];
-        break;
-      case '--ref':
-        args.ref = argv[++i];
-        break;
-      case '--auto-ref':
-        args.autoRef = true;
-        break;
-      case '--repo-url':
-        args.repoUrl = argv[++i];
-        break;
-      case '--output-dir':
-        args.outputDir = argv[++i];
-        break;
-      case '--entry-file':
-        args.entryFile = argv[++i];
-        break;
-      case '--output-spec':
-        args.outputSpec = argv[++i];
-        break;
-      case '--output-metadata':
-        args.outputMetadata = argv[++i];
-        break;
-      case '--output-endpoint-map':
-        args.outputEndpointMap = argv[++i];
-        break;
-      case '--output-semantic-kinds':
-        args.outputSemanticKinds = argv[++i];
-        break;
-      case '--deref-path-local':
-        args.derefPathLocal = true;
-        break;
-      case '--allow-like-refs':
-        args.allowLikeRefs = true;
-        break;
-      case '--allow-param-refs':
-        args.allowParamRefs = true;
-        break;
-      case '--allow-ambiguous-inlines':
-        args.allowAmbiguousInlines = true;
-        break;
-      case '--skip-fetch-if-exists':
-        args.skipFetchIfExists = true;
-        break;
-      case '--help':
-      case '-h':
-        args.help = true;
-        break;
-      case '--version':
-      case '-v':
-        args.version = true;
-        break;
-      default:
-        console.error(`Unknown option: ${argv[i]}`);
-        process.exit(1);
-    }
-  }
-
-  return args;
-}
+import { diffBundles, formatDiff, readDiffInput } from './diff.js';
+import {
+  classifyChanges,
+  formatClassification,
+  hasBreakingChanges,
+} from './classify.js';
+import { generateChangelog } from './changelog.js';
+import { watchBundle, formatStatsDelta } from './watch.js';
+import { checkBundle, formatCheck } from './check.js';
+import {
+  GitUnavailableError,
+  RefNotFoundError,
+  SpecEntryNotFoundError,
+} from './errors.js';
+import { readProfilesFile } from './profiles.js';
+import { readOverridesFile } from './overrides.js';
+import { findConfigFile, loadConfig, type BundlerConfig } from './config.js';
+import { applyConfig, parseArgs } from './cli-args.js';
+import { createConsoleLogger, defaultLogger, type Logger } from './logger.js';
+import { SPEC_METADATA_SCHEMA } from './metadata-schema.js';
+import { BUNDLER_VERSION } from './version.js';
+import type { BundleOptions } from './types.js';
 
 const HELP = `
 camunda-schema-bundler — Fetch & bundle Camunda multi-file OpenAPI spec
 
 Usage:
   camunda-schema-bundler [options]
+  camunda-schema-bundler check [options]
+  camunda-schema-bundler diff <old> <new> [--format text|json] [--fail-on-breaking]
+  camunda-schema-bundler changelog --from <ref> --to <ref> [--output <path>]
+
+Commands:
+  check                     Bundle in memory and verify that the files at
+                              --output-spec / --output-metadata / other output
+                              paths are up to date, without writing anything
+                              (outputs, cache or lock file). Takes the same
+                              options as bundling; exits with code 2 and a
+                              per-file summary if any output is stale
+  diff <old> <new>          Compare two bundled specs or spec-metadata.json files
+                              and report added/removed/changed operations, schemas,
+                              semantic keys, unions and deprecated enum members,
+                              each classified as breaking / non-breaking / additive
+    --format <text|json>    Output format (default: text)
+    --fail-on-breaking      Exit with code 2 if any change is breaking
+  changelog                 Fetch and bundle two upstream refs and render a Markdown
+                              changelog grouped by tag
+    --from <ref>            Older git ref (required)
+    --to <ref>              Newer git ref (required)
+    --repo-url <url>        Git repo URL (default: camunda/camunda)
+    --repo-path <dir>       Export both refs from a local clone instead (offline)
+    --entry-file <name>     Entry YAML file name (default: rest-api.yaml)
+    --work-dir <path>       Where both refs are fetched (default: external-spec/changelog)
+    --output <path>         Write the changelog to a file instead of stdout
 
 Modes:
   --fetch                   Fetch upstream spec before bundling
@@ -148,22 +133,104 @@ Fetch options:
   --auto-ref                Auto-detect ref from current git branch:
                               main → main, stable/* → stable/*, other → main
   --repo-url <url>          Git repo URL (default: https://github.com/camunda/camunda.git)
+  --repo-path <dir>         Export the spec at --ref from an existing local clone or
+                              mirror with git archive (no clone, no network)
+  --from-archive <file>     Extract the spec from a source archive of the repo
+                              (.tar.gz, .tgz, .tar or .zip; may be wrapped in one
+                              top-level directory). --ref only picks the spec dir
+  --lock-file <path>        Where to record the fetched repo URL, ref, resolved
+                              commit SHA and spec tree hash (default: spec.lock.json)
+  --locked                  Fetch exactly the commit pinned in the lock file and
+                              fail if the fetched tree hash differs from it
+  --fetch-timeout <sec>     Stop a git command that runs longer than this
+                              (default: 120)
+  --fetch-retries <n>       Retry a failed or timed-out clone this many times,
+                              waiting 1s, 2s, 4s, ... in between (default: 2).
+                              A missing ref is not retried
   --output-dir <path>       Local dir for fetched spec (default: external-spec/upstream/...)
   --skip-fetch-if-exists    Skip fetch if the entry file already exists locally
 
 Bundle options:
   --entry-file <name>       Entry YAML file name (default: rest-api.yaml)
-  --output-spec <path>      Output path for bundled JSON spec
+  --output-spec <path>      Output path for bundled spec
+  --output-format <fmt>     Bundled spec format: json (default) or yaml
   --output-metadata <path>  Output path for metadata IR JSON
   --output-endpoint-map <path>  Output path for endpoint map JSON [DEPRECATED — removed in 3.0.0; use OperationSummary.sourceFile in spec-metadata.json]
   --output-semantic-kinds <path>  Output path for the semantic-kinds.json registry (verbatim copy from specDir; skipped if absent)
+  --output-decision-log <path>  Output path for a JSON log of every location normalization
+                              or dedup rewrote to a component $ref: the component
+                              chosen, the strategy that chose it and the rejected
+                              candidates
+  --output-report <path>    Output path for a JSON report of the run (stats, step
+                              timings, warnings, ref, spec dir, bundler version)
+                              for CI dashboards
+  --overrides <file>        JSON/YAML map of path-local $ref → component schema name,
+                              applied on top of the built-in overrides. Fails if
+                              a target schema does not exist; warns about
+                              overrides that never matched a $ref
   --deref-path-local        Inline remaining path-local $refs
   --allow-like-refs         Don't fail on surviving path-local $like refs
   --allow-param-refs        Don't fail on surviving path-local $refs in parameters
   --allow-ambiguous-inlines Don't fail when inline schemas match multiple components
+  --allow-dangling-refs     Don't fail on $refs whose target does not exist in the bundle
+  --prune-unused-schemas    Drop component schemas not reachable from any operation
+                              (semantic-key schemas are always kept)
+  --keep-schema <name>      Keep this schema when pruning (repeatable)
+  --include-tag <tag>       Bundle only operations with this tag (repeatable);
+                              unreachable schemas are pruned from the slice
+  --exclude-tag <tag>       Drop operations with this tag (repeatable)
+  --include-operation <id>  Bundle only this operationId (repeatable; combines
+                              with --include-tag)
+  --canonical-order         Sort paths, components.* entries and schema properties
+                              by key (top-level keys keep the OpenAPI order), so
+                              reshuffled upstream YAML yields byte-identical output
+  --provenance              Embed where the bundle came from (ref, commit, repo URL,
+                              spec hash, bundler version, effective options) as
+                              info.x-camunda-bundle and metadata.provenance
+  --watch                   Keep running and re-bundle whenever files under the spec
+                              dir change; outputs are only rewritten when their
+                              content changed
+  --profiles <file>         JSON/YAML file listing output profiles. The spec is
+                              parsed and normalized once, then finished per
+                              profile with its own options and output paths
+  --cache-dir <path>        Directory for the content-addressed bundle cache
+                              (default: external-spec/.bundle-cache). A rerun on
+                              an unchanged spec with the same options skips bundling
+  --no-cache                Always bundle from scratch; don't read or write the cache
+                              (config: cache: false; --cache turns it back on)
+
+Config file:
+  --config <file>           Read options from a JSON/YAML file. Without --config,
+                              camunda-schema-bundler.config.{json,yaml,yml} in the
+                              current directory is used if present. Keys are the
+                              BundleOptions names (plus ref, autoRef, repoUrl,
+                              repoPath, archivePath, outputDir,
+                              skipFetchIfExists, cache). Command-line flags take
+                              precedence; every on/off flag also has a --no-
+                              form (e.g. --no-canonical-order) to switch off a
+                              value the config file turns on
+
+Logging:
+  --quiet, -q               Only log warnings and errors
+  --verbose                 Also log debug detail: step timings, cache hits,
+                              the git commands run by --fetch
+  --log-format <fmt>        text (default) or json: one {"level","message"}
+                              object per line, for log collectors
+
+  --print-metadata-schema   Print the JSON Schema (draft-07) that spec-metadata.json
+                              conforms to and exit, for validating the IR in
+                              non-TypeScript generators
   --help, -h                Show this help
   --version, -v             Show version
 
+Exit codes:
+  0  Success
+  1  Any other error
+  2  check: outputs are stale; diff --fail-on-breaking: breaking changes found
+  3  The git ref (or locked commit) does not exist upstream
+  4  The spec entry file was not found
+  5  git is not installed or not on PATH
+
 Examples:
   # Fetch from upstream and bundle (simplest usage)
   camunda-schema-bundler \\
@@ -183,19 +250,208 @@ Examples:
   camunda-schema-bundler --deref-path-local \\
     --output-spec external-spec/bundled/rest-api.bundle.json
 
+  # Process-only slice
+  camunda-schema-bundler \\
+    --include-tag "Process instance" --include-tag "Process definition" \\
+    --output-spec external-spec/bundled/process.bundle.json
+
+  # Plain bundle for TS plus a dereferenced variant for C#, from one parse
+  camunda-schema-bundler --profiles bundle-profiles.yaml \\
+    --output-spec external-spec/bundled/rest-api.bundle.json
+
+  # Emit the bundled spec as YAML (e.g. for Spectral)
+  camunda-schema-bundler --output-format yaml \\
+    --output-spec external-spec/bundled/rest-api.bundle.yaml
+
   # Auto-detect upstream ref from current git branch
   camunda-schema-bundler --auto-ref \\
     --output-spec external-spec/bundled/rest-api.bundle.json
+
+  # Re-bundle on every edit to a local upstream checkout
+  camunda-schema-bundler --watch \\
+    --spec-dir ../camunda/zeebe/gateway-protocol/src/main/proto/v2 \\
+    --output-spec external-spec/bundled/rest-api.bundle.json
+
+  # Use settings from ./camunda-schema-bundler.config.yaml, overriding the ref
+  camunda-schema-bundler --ref stable/8.8
+
+  # Compare a previous bundle against a freshly generated one
+  camunda-schema-bundler diff old/rest-api.bundle.json rest-api.bundle.json \\
+    --format json
+
+  # Block unannounced breaking changes in CI
+  camunda-schema-bundler diff old/spec-metadata.json spec-metadata.json \\
+    --fail-on-breaking
+
+  # Release notes for everything that changed between two upstream refs
+  camunda-schema-bundler changelog --from stable/8.8 --to main \\
+    --output API-CHANGES.md
 `.trim();
 
+interface DiffArgs {
+  oldFile: string;
+  newFile: string;
+  format: 'text' | 'json';
+  failOnBreaking: boolean;
+}
+
+function parseDiffArgs(argv: string[]): DiffArgs {
+  const files: string[] = [];
+  let format: DiffArgs['format'] = 'text';
+  let failOnBreaking = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--format': {
+        const value = argv[++i];
+        if (value !== 'text' && value !== 'json') {
+          console.error(`Invalid --format: ${value} (expected text or json)`);
+          process.exit(1);
+        }
+        format = value;
+        break;
+      }
+      case '--fail-on-breaking':
+        failOnBreaking = true;
+        break;
+      default:
+        if (argv[i].startsWith('-')) {
+          console.error(`Unknown option: ${argv[i]}`);
+          process.exit(1);
+        }
+        files.push(argv[i]);
+    }
+  }
+
+  if (files.length !== 2) {
+    console.error(
+      'Usage: camunda-schema-bundler diff <old> <new> [--format text|json] [--fail-on-breaking]'
+    );
+    process.exit(1);
+  }
+
+  return { oldFile: files[0], newFile: files[1], format, failOnBreaking };
+}
+
+function runDiff(argv: string[]): void {
+  const args = parseDiffArgs(argv);
+  const oldInput = readDiffInput(args.oldFile);
+  const newInput = readDiffInput(args.newFile);
+  const diff = diffBundles(oldInput, newInput);
+  const changes = classifyChanges(oldInput, newInput);
+
+  console.log(
+    args.format === 'json'
+      ? JSON.stringify({ ...diff, changes }, null, 2)
+      : `${formatDiff(diff)}\n\n${formatClassification(changes)}`
+  );
+
+  if (args.failOnBreaking && hasBreakingChanges(changes)) {
+    console.error(
+      `[camunda-schema-bundler] ${changes.filter((c) => c.severity === 'breaking').length} breaking change(s) detected`
+    );
+    process.exit(2);
+  }
+}
+
+interface ChangelogArgs {
+  from?: string;
+  to?: string;
+  repoUrl?: string;
+  repoPath?: string;
+  entryFile?: string;
+  workDir?: string;
+  output?: string;
+}
+
+function parseChangelogArgs(argv: string[]): ChangelogArgs {
+  const args: ChangelogArgs = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--from':
+        args.from = argv[++i];
+        break;
+      case '--to':
+        args.to = argv[++i];
+        break;
+      case '--repo-url':
+        args.repoUrl = argv[++i];
+        break;
+      case '--repo-path':
+        args.repoPath = argv[++i];
+        break;
+      case '--entry-file':
+        args.entryFile = argv[++i];
+        break;
+      case '--work-dir':
+        args.workDir = argv[++i];
+        break;
+      case '--output':
+        args.output = argv[++i];
+        break;
+      default:
+        console.error(`Unknown option: ${argv[i]}`);
+        process.exit(1);
+    }
+  }
+
+  if (!args.from || !args.to) {
+    console.error(
+      'Usage: camunda-schema-bundler changelog --from <ref> --to <ref> [--output <path>]'
+    );
+    process.exit(1);
+  }
+
+  return args;
+}
+
+async function runChangelog(argv: string[]): Promise<void> {
+  const args = parseChangelogArgs(argv);
+  // The changelog itself goes to stdout; keep bundle progress out of it.
+  logger = createConsoleLogger({ stderr: true });
+
+  const changelog = await generateChangelog({
+    from: args.from!,
+    to: args.to!,
+    repoUrl: args.repoUrl,
+    repoPath: args.repoPath,
+    entryFile: args.entryFile,
+    workDir: args.workDir,
+    logger,
+  });
+
+  if (args.output) {
+    fs.mkdirSync(path.dirname(args.output), { recursive: true });
+    fs.writeFileSync(args.output, changelog, 'utf8');
+    logger.info(`Changelog written to ${args.output}`);
+  } else {
+    console.log(changelog);
+  }
+}
+
+/** Replaced in `main()` once `--quiet` / `--verbose` / `--log-format` are parsed. */
+let logger: Logger = defaultLogger;
+
 async function main(): Promise<void> {
-  const args = parseArgs(process.argv);
+  if (process.argv[2] === 'diff') {
+    runDiff(process.argv.slice(3));
+    return;
+  }
+
+  if (process.argv[2] === 'changelog') {
+    await runChangelog(process.argv.slice(3));
+    return;
+  }
+
+  // `check` takes the same options as bundling.
+  const check = process.argv[2] === 'check';
+  const args = parseArgs(
+    check ? [...process.argv.slice(0, 2), ...process.argv.slice(3)] : process.argv
+  );
 
   if (args.version) {
-    const { createRequire } = await import('node:module');
-    const require = createRequire(import.meta.url);
-    const pkg = require('../package.json') as { version: string };
-    console.log(pkg.version);
+    console.log(BUNDLER_VERSION);
     return;
   }
 
@@ -204,18 +460,40 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (args.printMetadataSchema) {
+    console.log(JSON.stringify(SPEC_METADATA_SCHEMA, null, 2));
+    return;
+  }
+
+  logger = createConsoleLogger({
+    level: args.quiet ? 'warn' : args.verbose ? 'debug' : 'info',
+    format: args.logFormat,
+  });
+
+  const configFile = args.config ?? findConfigFile();
+  const config: BundlerConfig = configFile ? loadConfig(configFile) : {};
+  if (configFile) logger.info(`Using config ${configFile}`);
+  applyConfig(args, config);
+
   let specDir: string;
+  let fetchedRef: string | undefined;
+  let fetchedCommit: string | undefined;
+  let fetchedRepoUrl: string | undefined;
 
   if (args.specDir) {
     // Use existing local spec directory
     specDir = args.specDir;
   } else {
-    // Resolve the ref: explicit --ref > --auto-ref > default "main"
+    // Resolve the ref: explicit --ref > --locked > --auto-ref > default "main"
+    const lockFile = args.lockFile ?? 'spec.lock.json';
     let ref = args.ref;
+    if (!ref && args.locked) {
+      ref = readSpecLock(lockFile).ref;
+    }
     if (!ref && args.autoRef) {
       const detected = detectUpstreamRef();
-      console.log(
-        `[camunda-schema-bundler] Auto-ref (${detected.source}): ${detected.ref}` +
+      logger.info(
+        `Auto-ref (${detected.source}): ${detected.ref}` +
           (detected.branch ? ` (branch: ${detected.branch})` : '')
       );
       ref = detected.ref;
@@ -227,78 +505,177 @@ async function main(): Promise<void> {
       args.outputDir ??
       path.join('external-spec', 'upstream', resolvedSpecDir);
 
-    console.log(
-      `[camunda-schema-bundler] Fetching spec (ref: ${ref ?? 'main'})...`
+    logger.info(
+      args.archivePath
+        ? `Extracting spec from ${args.archivePath}...`
+        : args.repoPath
+          ? `Exporting spec from ${args.repoPath} (ref: ${ref ?? 'main'})...`
+          : `Fetching spec (ref: ${ref ?? 'main'})...`
     );
 
     const fetchResult = await fetchSpec({
       ref,
       repoUrl: args.repoUrl,
+      repoPath: args.repoPath,
+      archivePath: args.archivePath,
+      // A check must not rewrite the lock; only verify it when locked.
+      lockFile: check && !args.locked ? undefined : lockFile,
+      locked: args.locked,
+      timeoutMs: args.fetchTimeoutMs,
+      retries: args.fetchRetries,
+      // Log each git phase once it completes, not every percentage update.
+      onProgress: ({ command, message, percent }) => {
+        if (percent === undefined || percent === 100) {
+          logger.debug(`${command}: ${message}`);
+        }
+      },
       outputDir,
       entryFile: args.entryFile,
       skipIfExists: args.skipFetchIfExists,
+      logger,
     });
 
     if (fetchResult.fetched) {
-      console.log(
-        `[camunda-schema-bundler] Spec fetched to ${fetchResult.specDir}`
-      );
+      logger.info(`Spec fetched to ${fetchResult.specDir}`);
     } else {
-      console.log(
-        `[camunda-schema-bundler] Spec already exists, skipping fetch`
+      logger.info(`Spec already exists, skipping fetch`);
+    }
+    if (fetchResult.lock && (args.locked || !check)) {
+      const commit = fetchResult.lock.commit ?? 'unknown commit';
+      logger.info(
+        args.locked
+          ? `Spec matches ${lockFile} (${commit})`
+          : `Lock written to ${lockFile} (${commit})`
       );
     }
 
     specDir = fetchResult.specDir;
+    fetchedRef = ref ?? 'main';
+    fetchedCommit = fetchResult.lock?.commit ?? undefined;
+    fetchedRepoUrl = fetchResult.lock?.repoUrl ?? args.repoUrl;
   }
 
-  console.log(`[camunda-schema-bundler] Bundling spec from ${specDir}`);
-
-  const result = await bundle({
+  const bundleOptions: BundleOptions = {
     specDir,
     entryFile: args.entryFile,
     outputSpec: args.outputSpec,
+    outputSpecFormat: args.outputFormat,
     outputMetadata: args.outputMetadata,
     outputEndpointMap: args.outputEndpointMap,
     outputSemanticKinds: args.outputSemanticKinds,
+    outputDecisionLog: args.outputDecisionLog,
+    outputReport: args.outputReport,
+    ref: fetchedRef,
+    commit: fetchedCommit,
+    repoUrl: fetchedRepoUrl,
     dereferencePathLocalRefs: args.derefPathLocal,
     allowPathLocalLikeRefs: args.allowLikeRefs,
     allowPathLocalParameterRefs: args.allowParamRefs,
     allowAmbiguousInlines: args.allowAmbiguousInlines,
-  });
+    allowDanglingRefs: args.allowDanglingRefs,
+    pruneUnusedSchemas: args.pruneUnusedSchemas,
+    keepSchemas: args.keepSchemas.length > 0 ? args.keepSchemas : undefined,
+    includeTags: args.includeTags.length > 0 ? args.includeTags : undefined,
+    excludeTags: args.excludeTags.length > 0 ? args.excludeTags : undefined,
+    includeOperations:
+      args.includeOperations.length > 0 ? args.includeOperations : undefined,
+    validate: args.validate,
+    canonicalOrder: args.canonicalOrder,
+    provenance: args.provenance,
+    cacheDir: !args.cache
+      ? undefined
+      : (args.cacheDir ?? path.join('external-spec', '.bundle-cache')),
+    manualOverrides: args.overrides
+      ? readOverridesFile(args.overrides)
+      : config.manualOverrides,
+    profiles: args.profiles ? readProfilesFile(args.profiles) : config.profiles,
+    logger,
+  };
 
-  console.log(
-    `[camunda-schema-bundler] Done: paths=${result.stats.pathCount}, ` +
+  if (check) {
+    if (args.watch) {
+      throw new Error('check cannot be combined with --watch');
+    }
+    logger.info(`Checking outputs against ${specDir}`);
+    const result = await checkBundle(bundleOptions);
+    if (!result.upToDate) {
+      logger.error(`${formatCheck(result)}\nRe-run without \`check\` to regenerate them`);
+      process.exit(2);
+    }
+    logger.info(formatCheck(result));
+    return;
+  }
+
+  if (args.watch) {
+    logger.info(`Watching ${specDir} for changes (Ctrl+C to stop)`);
+    const watcher = watchBundle({
+      ...bundleOptions,
+      onBundle: ({ result, statsDelta, written }) => {
+        logger.info(
+          `Re-bundled: paths=${result.stats.pathCount}, ` +
+            `schemas=${result.stats.schemaCount} (${formatStatsDelta(statsDelta)})`
+        );
+        logger.info(
+          written.length > 0 ? `Wrote ${written.join(', ')}` : 'Outputs unchanged'
+        );
+      },
+    });
+    process.on('SIGINT', () => {
+      watcher.close();
+      process.exit(0);
+    });
+    await watcher.ready;
+    return;
+  }
+
+  logger.info(`Bundling spec from ${specDir}`);
+
+  const result = await bundle(bundleOptions);
+
+  logger.info(
+    `Done: paths=${result.stats.pathCount}, ` +
       `schemas=${result.stats.schemaCount}, ` +
       `augmented=${result.stats.augmentedSchemaCount}`
   );
 
   if (result.stats.promotedInlineSchemaCount > 0) {
-    console.log(
-      `[camunda-schema-bundler] Promoted ${result.stats.promotedInlineSchemaCount} inline schemas to named components`
+    logger.info(
+      `Promoted ${result.stats.promotedInlineSchemaCount} inline schemas to named components`
     );
   }
 
   if (result.stats.freshDedupCount > 0) {
-    console.log(
-      `[camunda-schema-bundler] Fresh dedup replaced ${result.stats.freshDedupCount} inline duplicates`
+    logger.info(
+      `Fresh dedup replaced ${result.stats.freshDedupCount} inline duplicates`
     );
   }
 
   if (result.stats.dereferencedPathLocalRefCount > 0) {
-    console.log(
-      `[camunda-schema-bundler] Dereferenced ${result.stats.dereferencedPathLocalRefCount} path-local $refs`
+    logger.info(
+      `Dereferenced ${result.stats.dereferencedPathLocalRefCount} path-local $refs`
     );
   }
 
   if (result.stats.inlinedPathLocalParameterCount > 0) {
-    console.log(
-      `[camunda-schema-bundler] Inlined ${result.stats.inlinedPathLocalParameterCount} path-local $refs in parameters arrays`
+    logger.info(
+      `Inlined ${result.stats.inlinedPathLocalParameterCount} path-local $refs in parameters arrays`
     );
   }
 
-  console.log(
-    `[camunda-schema-bundler] Metadata: ` +
+  if (result.stats.prunedSchemas && result.stats.prunedSchemas.length > 0) {
+    logger.info(
+      `Pruned ${result.stats.prunedSchemas.length} unused schemas: ${result.stats.prunedSchemas.join(', ')}`
+    );
+  }
+
+  if (result.stats.danglingRefCount > 0) {
+    logger.warn(
+      `${result.stats.danglingRefCount} dangling $refs left in the bundle (--allow-dangling-refs)`
+    );
+  }
+
+  logger.info(
+    `Metadata: ` +
       `semanticKeys=${result.metadata.integrity.totalSemanticKeys}, ` +
       `unions=${result.metadata.integrity.totalUnions}, ` +
       `operations=${result.metadata.integrity.totalOperations}, ` +
@@ -306,32 +683,64 @@ async function main(): Promise<void> {
   );
 
   if (args.outputSpec) {
-    console.log(`[camunda-schema-bundler] Spec written to ${args.outputSpec}`);
+    logger.info(`Spec written to ${args.outputSpec}`);
   }
   if (args.outputMetadata) {
-    console.log(
-      `[camunda-schema-bundler] Metadata written to ${args.outputMetadata}`
-    );
+    logger.info(`Metadata written to ${args.outputMetadata}`);
   }
   if (args.outputEndpointMap) {
-    console.log(
-      `[camunda-schema-bundler] Endpoint map written to ${args.outputEndpointMap} (${Object.keys(result.endpointMap).length} endpoints)`
+    logger.info(
+      `Endpoint map written to ${args.outputEndpointMap} (${Object.keys(result.endpointMap).length} endpoints)`
     );
   }
   if (args.outputSemanticKinds) {
     if (result.semanticKinds !== null) {
-      console.log(
-        `[camunda-schema-bundler] Semantic-kinds registry written to ${args.outputSemanticKinds}`
+      logger.info(
+        `Semantic-kinds registry written to ${args.outputSemanticKinds}`
       );
     } else {
-      console.log(
-        `[camunda-schema-bundler] No semantic-kinds.json found in specDir; skipping ${args.outputSemanticKinds}`
+      logger.info(
+        `No semantic-kinds.json found in specDir; skipping ${args.outputSemanticKinds}`
       );
     }
   }
+
+  if (args.outputReport) {
+    logger.info(`Report written to ${args.outputReport}`);
+  }
+  if (args.outputDecisionLog) {
+    logger.info(
+      `Decision log written to ${args.outputDecisionLog} (${result.decisionLog.length} decisions)`
+    );
+  }
+
+  for (const [name, profileResult] of Object.entries(result.profiles ?? {})) {
+    const profile = bundleOptions.profiles!.find((p) => p.name === name)!;
+    const written = [
+      profile.outputSpec,
+      profile.outputMetadata,
+      profile.outputEndpointMap,
+      profileResult.semanticKinds !== null ? profile.outputSemanticKinds : undefined,
+      profile.outputDecisionLog,
+      profile.outputReport,
+    ].filter((f): f is string => f !== undefined);
+    logger.info(
+      `Profile "${name}": paths=${profileResult.stats.pathCount}, ` +
+        `schemas=${profileResult.stats.schemaCount}` +
+        (written.length > 0 ? `; wrote ${written.join(', ')}` : '')
+    );
+  }
+}
+
+/** Exit code for an error that ends the run; see "Exit codes" in the help. */
+function exitCodeFor(err: unknown): number {
+  if (err instanceof RefNotFoundError) return 3;
+  if (err instanceof SpecEntryNotFoundError) return 4;
+  if (err instanceof GitUnavailableError) return 5;
+  return 1;
 }
 
 main().catch((err) => {
-  console.error('[camunda-schema-bundler] Fatal error:', err.message || err);
-  process.exit(1);
+  logger.error(`Fatal error: ${err.message || err}`);
+  process.exit(exitCodeFor(err));
 });
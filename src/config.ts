@@ -0,0 +1,233 @@
+/**
+ * CLI configuration file support.
+ *
+ * A config file holds the same settings as the CLI flags, using the option
+ * names of `BundleOptions` / `FetchAndBundleOptions`, so that repositories
+ * can share one checked-in file instead of long flag lists in npm scripts.
+ * It is looked up as `camunda-schema-bundler.config.{json,yaml,yml}` in the
+ * working directory, or given explicitly with `--config`.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { parse as parseYaml } from 'yaml';
+
+import { validateFetchLimits } from './fetch.js';
+import { validateManualOverrides } from './overrides.js';
+import { validateProfiles } from './profiles.js';
+import type {
+  BundleOptions,
+  BundleProfile,
+  FetchAndBundleOptions,
+} from './types.js';
+
+export const CONFIG_FILE_NAMES = [
+  'camunda-schema-bundler.config.json',
+  'camunda-schema-bundler.config.yaml',
+  'camunda-schema-bundler.config.yml',
+];
+
+export interface BundlerConfig
+  extends Omit<
+      BundleOptions,
+      'specDir' | 'commit' | 'logger' | 'plugins' | 'metadataExtractors'
+    >,
+    Pick<
+      FetchAndBundleOptions,
+      | 'ref'
+      | 'repoUrl'
+      | 'repoPath'
+      | 'archivePath'
+      | 'lockFile'
+      | 'locked'
+      | 'fetchTimeoutMs'
+      | 'fetchRetries'
+      | 'skipFetchIfExists'
+    > {
+  /** Local spec directory to bundle without fetching (as `--spec-dir`). */
+  specDir?: string;
+
+  /** Directory to fetch the upstream spec into (as `--output-dir`). */
+  outputDir?: string;
+
+  /** Detect the upstream ref from the current git branch (as `--auto-ref`). */
+  autoRef?: boolean;
+
+  /** Read and write the bundle cache (default: true; `false` as `--no-cache`). */
+  cache?: boolean;
+}
+
+type ValueKind = 'string' | 'boolean' | 'number' | 'string[]' | 'string-map' | 'profiles';
+
+/** Every supported key and the kind of value it takes. */
+const CONFIG_KEYS: Record<keyof BundlerConfig, ValueKind> = {
+  ref: 'string',
+  autoRef: 'boolean',
+  repoUrl: 'string',
+  repoPath: 'string',
+  archivePath: 'string',
+  lockFile: 'string',
+  locked: 'boolean',
+  fetchTimeoutMs: 'number',
+  fetchRetries: 'number',
+  outputDir: 'string',
+  skipFetchIfExists: 'boolean',
+  specDir: 'string',
+  entryFile: 'string',
+  outputSpec: 'string',
+  outputSpecFormat: 'string',
+  outputMetadata: 'string',
+  outputEndpointMap: 'string',
+  outputSemanticKinds: 'string',
+  outputDecisionLog: 'string',
+  outputReport: 'string',
+  manualOverrides: 'string-map',
+  dereferencePathLocalRefs: 'boolean',
+  allowPathLocalLikeRefs: 'boolean',
+  allowPathLocalParameterRefs: 'boolean',
+  allowAmbiguousInlines: 'boolean',
+  allowDanglingRefs: 'boolean',
+  pruneUnusedSchemas: 'boolean',
+  keepSchemas: 'string[]',
+  includeTags: 'string[]',
+  excludeTags: 'string[]',
+  includeOperations: 'string[]',
+  validate: 'string',
+  canonicalOrder: 'boolean',
+  provenance: 'boolean',
+  cache: 'boolean',
+  cacheDir: 'string',
+  profiles: 'profiles',
+};
+
+/** Keys whose values are file system paths, resolved against the config file's directory. */
+const PATH_KEYS = [
+  'specDir',
+  'repoPath',
+  'archivePath',
+  'lockFile',
+  'outputDir',
+  'outputSpec',
+  'outputMetadata',
+  'outputEndpointMap',
+  'outputSemanticKinds',
+  'outputDecisionLog',
+  'outputReport',
+  'cacheDir',
+] as const;
+
+const PROFILE_PATH_KEYS = [
+  'outputSpec',
+  'outputMetadata',
+  'outputEndpointMap',
+  'outputSemanticKinds',
+  'outputDecisionLog',
+  'outputReport',
+] as const;
+
+const ENUM_VALUES: Partial<Record<keyof BundlerConfig, string[]>> = {
+  outputSpecFormat: ['json', 'yaml'],
+  validate: ['off', 'warn', 'error'],
+};
+
+/** Return the path of the config file in `dir`, if there is one. */
+export function findConfigFile(dir: string = process.cwd()): string | undefined {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(dir, name);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Read and validate a JSON or YAML config file. Unknown keys and values of
+ * the wrong type are errors, so typos fail loudly instead of being ignored.
+ * Relative paths are resolved against the directory containing the file.
+ */
+export function loadConfig(file: string): BundlerConfig {
+  const doc = parseYaml(fs.readFileSync(file, 'utf8')) as unknown;
+  if (doc === null || doc === undefined) return {};
+  if (typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new Error(`${file}: expected an object of bundler options`);
+  }
+
+  const config = doc as Record<string, unknown>;
+  for (const [key, value] of Object.entries(config)) {
+    if (!Object.hasOwn(CONFIG_KEYS, key)) {
+      throw new Error(`${file}: unknown option "${key}"`);
+    }
+    const kind = CONFIG_KEYS[key as keyof BundlerConfig];
+    if (!hasKind(value, kind)) {
+      throw new Error(`${file}: "${key}" must be ${describeKind(kind)}`);
+    }
+    const allowed = ENUM_VALUES[key as keyof BundlerConfig];
+    if (allowed && !allowed.includes(value as string)) {
+      throw new Error(
+        `${file}: "${key}" must be one of ${allowed.join(', ')}, got "${value}"`
+      );
+    }
+  }
+
+  const result = config as BundlerConfig;
+  if (result.profiles) validateProfiles(result.profiles);
+  if (result.manualOverrides) validateManualOverrides(result.manualOverrides, file);
+  try {
+    validateFetchLimits({
+      timeoutMs: result.fetchTimeoutMs,
+      retries: result.fetchRetries,
+    });
+  } catch (err) {
+    throw new Error(`${file}: ${(err as Error).message}`);
+  }
+
+  const baseDir = path.dirname(path.resolve(file));
+  for (const key of PATH_KEYS) {
+    if (result[key] !== undefined) result[key] = path.resolve(baseDir, result[key]);
+  }
+  for (const profile of result.profiles ?? []) {
+    for (const key of PROFILE_PATH_KEYS) {
+      if (profile[key] !== undefined) {
+        (profile as BundleProfile)[key] = path.resolve(baseDir, profile[key]);
+      }
+    }
+  }
+  return result;
+}
+
+function hasKind(value: unknown, kind: ValueKind): boolean {
+  switch (kind) {
+    case 'string':
+    case 'boolean':
+      return typeof value === kind;
+    case 'number':
+      return typeof value === 'number';
+    case 'string[]':
+      return Array.isArray(value) && value.every((v) => typeof v === 'string');
+    case 'string-map':
+      return (
+        !!value &&
+        typeof value === 'object' &&
+        !Array.isArray(value) &&
+        Object.values(value).every((v) => typeof v === 'string')
+      );
+    case 'profiles':
+      return Array.isArray(value);
+  }
+}
+
+function describeKind(kind: ValueKind): string {
+  switch (kind) {
+    case 'string':
+      return 'a string';
+    case 'boolean':
+      return 'true or false';
+    case 'number':
+      return 'a number';
+    case 'string[]':
+      return 'a list of strings';
+    case 'string-map':
+      return 'a map of strings to strings';
+    case 'profiles':
+      return 'a list of profiles';
+  }
+}
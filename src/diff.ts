@@ -0,0 +1,208 @@
+/**
+ * Structured diff between two bundled specs and/or their metadata IRs.
+ *
+ * Compares operations (keyed by `operationId`), component schemas (keyed by
+ * name), and the semantic-key, union and deprecated-enum sections of the IR
+ * (keyed by `stableId`). The result is plain JSON so release tooling can
+ * consume it directly; `formatDiff()` renders the same data for humans.
+ */
+import fs from 'node:fs';
+
+import { canonicalStringify } from './helpers.js';
+import { extractMetadata } from './metadata.js';
+import type {
+  SpecMetadata,
+  OperationSummary,
+  SemanticKeyEntry,
+  UnionEntry,
+  DeprecatedEnumSchemaEntry,
+} from './types.js';
+
+export interface DiffInput {
+  /**
+   * The bundled OpenAPI spec. Optional: when either side omits it,
+   * component schemas are not compared (`BundleDiff.schemasCompared` is false).
+   */
+  spec?: Record<string, unknown>;
+
+  /** The metadata IR (`spec-metadata.json`). */
+  metadata: SpecMetadata;
+}
+
+export type DiffChangeKind = 'added' | 'removed' | 'changed';
+
+export interface DiffEntry<T> {
+  /** Identity of the entry (`operationId`, schema name or `stableId`). */
+  id: string;
+
+  kind: DiffChangeKind;
+
+  /** The entry in the old input (absent for `added`). */
+  before?: T;
+
+  /** The entry in the new input (absent for `removed`). */
+  after?: T;
+
+  /** Top-level fields whose value differs. Only set for `changed`. */
+  changedFields?: string[];
+}
+
+export interface BundleDiff {
+  operations: DiffEntry<OperationSummary>[];
+  schemas: DiffEntry<Record<string, unknown>>[];
+  semanticKeys: DiffEntry<SemanticKeyEntry>[];
+  unions: DiffEntry<UnionEntry>[];
+  deprecatedEnumMembers: DiffEntry<DeprecatedEnumSchemaEntry>[];
+
+  /** False when either input lacked a bundled spec, so schemas were skipped. */
+  schemasCompared: boolean;
+}
+
+export type DiffSection = Exclude<keyof BundleDiff, 'schemasCompared'>;
+
+export const DIFF_SECTIONS: readonly DiffSection[] = [
+  'operations',
+  'schemas',
+  'semanticKeys',
+  'unions',
+  'deprecatedEnumMembers',
+];
+
+/**
+ * Compare two bundles. Entries are matched by identity, so a renamed
+ * operation or schema shows up as one removal plus one addition.
+ */
+export function diffBundles(oldInput: DiffInput, newInput: DiffInput): BundleDiff {
+  const schemasCompared = !!oldInput.spec && !!newInput.spec;
+
+  return {
+    operations: diffById(
+      indexBy(oldInput.metadata.operations, (op) => op.operationId),
+      indexBy(newInput.metadata.operations, (op) => op.operationId)
+    ),
+    schemas: schemasCompared
+      ? diffById(
+          new Map(Object.entries(componentSchemas(oldInput.spec!))),
+          new Map(Object.entries(componentSchemas(newInput.spec!)))
+        ) as DiffEntry<Record<string, unknown>>[]
+      : [],
+    semanticKeys: diffById(
+      indexBy(oldInput.metadata.semanticKeys, (k) => k.stableId),
+      indexBy(newInput.metadata.semanticKeys, (k) => k.stableId)
+    ),
+    unions: diffById(
+      indexBy(oldInput.metadata.unions, (u) => u.stableId),
+      indexBy(newInput.metadata.unions, (u) => u.stableId)
+    ),
+    deprecatedEnumMembers: diffById(
+      indexBy(oldInput.metadata.deprecatedEnumMembers, (e) => e.stableId),
+      indexBy(newInput.metadata.deprecatedEnumMembers, (e) => e.stableId)
+    ),
+    schemasCompared,
+  };
+}
+
+/** True when any section of the diff has at least one entry. */
+export function hasChanges(diff: BundleDiff): boolean {
+  return DIFF_SECTIONS.some((section) => diff[section].length > 0);
+}
+
+/**
+ * Render a diff as human-readable text: one summary line per section with
+ * changes, followed by `+` (added), `-` (removed) and `~` (changed) lines.
+ */
+export function formatDiff(diff: BundleDiff): string {
+  const lines: string[] = [];
+
+  for (const section of DIFF_SECTIONS) {
+    const entries = diff[section] as DiffEntry<unknown>[];
+    if (entries.length === 0) continue;
+
+    const count = (kind: DiffChangeKind) =>
+      entries.filter((e) => e.kind === kind).length;
+    lines.push(
+      `${section}: ${count('added')} added, ${count('removed')} removed, ${count('changed')} changed`
+    );
+    for (const entry of entries) {
+      const marker =
+        entry.kind === 'added' ? '+' : entry.kind === 'removed' ? '-' : '~';
+      const fields = entry.changedFields?.length
+        ? ` (${entry.changedFields.join(', ')})`
+        : '';
+      lines.push(`  ${marker} ${entry.id}${fields}`);
+    }
+  }
+
+  if (lines.length === 0) lines.push('No changes.');
+  if (!diff.schemasCompared) {
+    lines.push('(schemas not compared: a bundled spec is required on both sides)');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Read a diff input from a JSON file. Accepts either a bundled spec
+ * (`rest-api.bundle.json`, recognized by its `openapi` key — the metadata IR
+ * is re-derived from it) or a metadata IR (`spec-metadata.json`).
+ */
+export function readDiffInput(file: string): DiffInput {
+  const doc = JSON.parse(fs.readFileSync(file, 'utf8')) as Record<
+    string,
+    unknown
+  >;
+
+  if (typeof doc['openapi'] === 'string') {
+    return {
+      spec: doc,
+      metadata: extractMetadata(doc, componentSchemas(doc), ''),
+    };
+  }
+
+  if (typeof doc['schemaVersion'] === 'string' && Array.isArray(doc['operations'])) {
+    return { metadata: doc as unknown as SpecMetadata };
+  }
+
+  throw new Error(
+    `${file} is neither a bundled OpenAPI spec nor a spec-metadata.json IR`
+  );
+}
+
+function componentSchemas(spec: Record<string, unknown>): Record<string, unknown> {
+  const components = spec['components'] as Record<string, unknown> | undefined;
+  return (components?.['schemas'] as Record<string, unknown> | undefined) ?? {};
+}
+
+function indexBy<T>(entries: T[], idOf: (entry: T) => string): Map<string, T> {
+  return new Map(entries.map((e) => [idOf(e), e]));
+}
+
+function diffById<T>(oldById: Map<string, T>, newById: Map<string, T>): DiffEntry<T>[] {
+  const ids = [...new Set([...oldById.keys(), ...newById.keys()])].sort();
+
+  const entries: DiffEntry<T>[] = [];
+  for (const id of ids) {
+    const b = oldById.get(id);
+    const a = newById.get(id);
+    if (b === undefined) {
+      entries.push({ id, kind: 'added', after: a });
+    } else if (a === undefined) {
+      entries.push({ id, kind: 'removed', before: b });
+    } else {
+      const changedFields = changedTopLevelFields(b, a);
+      if (changedFields.length > 0) {
+        entries.push({ id, kind: 'changed', before: b, after: a, changedFields });
+      }
+    }
+  }
+  return entries;
+}
+
+/** Top-level keys whose canonical (key-order-insensitive) value differs. */
+/** Top-level keys whose value differs between `before` and `after`, sorted. */
+export function changedTopLevelFields(before: unknown, after: unknown): string[] {
+  const b = (before ?? {}) as Record<string, unknown>;
+  const a = (after ?? {}) as Record<string, unknown>;
+  return [...new Set([...Object.keys(b), ...Object.keys(a)])]
+    .filter((k) => canonicalStringify(b[k]) !== canonicalStringify(a[k]))
+    .sort();
+}
@@ -0,0 +1,71 @@
+/**
+ * Error types for failures that callers may want to handle differently from
+ * a generic error — retry, report to the user, or map to a distinct CLI exit
+ * code. Anything else is thrown as a plain `Error`.
+ */
+
+/** An external command run by `fetchSpec()` (git, tar, unzip) failed or timed out. */
+export class FetchCommandError extends Error {
+  /** The command line that failed. */
+  readonly command: string;
+
+  /** The command's standard error output, trimmed. */
+  readonly stderr: string;
+
+  /** True when the command was stopped after `FetchOptions.timeoutMs`. */
+  readonly timedOut: boolean;
+
+  constructor(
+    message: string,
+    details: { command: string; stderr: string; timedOut?: boolean }
+  ) {
+    super(message);
+    this.name = 'FetchCommandError';
+    this.command = details.command;
+    this.stderr = details.stderr;
+    this.timedOut = details.timedOut ?? false;
+  }
+}
+
+/** The requested git ref (or locked commit) does not exist in the repository. Not retried. */
+export class RefNotFoundError extends FetchCommandError {
+  readonly ref: string;
+
+  /** The repository URL or local clone that was searched. */
+  readonly repo: string;
+
+  constructor(
+    ref: string,
+    repo: string,
+    details: { command: string; stderr: string }
+  ) {
+    super(`Ref "${ref}" not found in ${repo}`, details);
+    this.name = 'RefNotFoundError';
+    this.ref = ref;
+    this.repo = repo;
+  }
+}
+
+/** The spec entry file is missing from the fetched tree, archive or spec directory. */
+export class SpecEntryNotFoundError extends Error {
+  /** Where the entry was looked for. */
+  readonly entryPath: string;
+
+  constructor(message: string, entryPath: string) {
+    super(message);
+    this.name = 'SpecEntryNotFoundError';
+    this.entryPath = entryPath;
+  }
+}
+
+/** The `git` executable could not be started (not installed or not on PATH). */
+export class GitUnavailableError extends Error {
+  constructor(options?: { cause?: unknown }) {
+    super(
+      'git is not available on PATH. Install git, or fetch from a source ' +
+        'archive (CLI: --from-archive) or bundle a local spec (CLI: --spec-dir)',
+      options
+    );
+    this.name = 'GitUnavailableError';
+  }
+}
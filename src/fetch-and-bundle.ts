@@ -2,7 +2,7 @@
  * Convenience function that fetches the upstream spec and bundles it in one call.
  */
 import path from 'node:path';
-import { fetchSpec, DEFAULT_SPEC_DIR } from './fetch.js';
+import { fetchSpec, DEFAULT_REF, DEFAULT_SPEC_DIR } from './fetch.js';
 import { bundle } from './bundle.js';
 import type { FetchAndBundleOptions, BundleResult } from './types.js';
 
@@ -20,24 +20,52 @@ export async function fetchAndBundle(
 
   const fetchResult = await fetchSpec({
     repoUrl: options.repoUrl,
+    repoPath: options.repoPath,
+    archivePath: options.archivePath,
+    lockFile: options.lockFile,
+    locked: options.locked,
+    timeoutMs: options.fetchTimeoutMs,
+    retries: options.fetchRetries,
+    onProgress: options.onFetchProgress,
     ref: options.ref,
     specDir: options.specDir,
     entryFile: options.entryFile,
     outputDir,
     skipIfExists: options.skipFetchIfExists,
+    logger: options.logger,
   });
 
   return bundle({
     specDir: fetchResult.specDir,
     entryFile: options.entryFile,
     outputSpec: options.outputSpec,
+    outputSpecFormat: options.outputSpecFormat,
     outputMetadata: options.outputMetadata,
     outputEndpointMap: options.outputEndpointMap,
     outputSemanticKinds: options.outputSemanticKinds,
+    outputDecisionLog: options.outputDecisionLog,
+    outputReport: options.outputReport,
+    ref: fetchResult.lock?.ref ?? options.ref ?? DEFAULT_REF,
+    commit: fetchResult.lock?.commit ?? undefined,
+    repoUrl: fetchResult.lock?.repoUrl ?? options.repoUrl,
+    logger: options.logger,
     manualOverrides: options.manualOverrides,
     dereferencePathLocalRefs: options.dereferencePathLocalRefs,
     allowPathLocalLikeRefs: options.allowPathLocalLikeRefs,
     allowPathLocalParameterRefs: options.allowPathLocalParameterRefs,
     allowAmbiguousInlines: options.allowAmbiguousInlines,
+    allowDanglingRefs: options.allowDanglingRefs,
+    pruneUnusedSchemas: options.pruneUnusedSchemas,
+    keepSchemas: options.keepSchemas,
+    includeTags: options.includeTags,
+    excludeTags: options.excludeTags,
+    includeOperations: options.includeOperations,
+    validate: options.validate,
+    canonicalOrder: options.canonicalOrder,
+    provenance: options.provenance,
+    cacheDir: options.cacheDir,
+    profiles: options.profiles,
+    plugins: options.plugins,
+    metadataExtractors: options.metadataExtractors,
   });
 }
@@ -1,12 +1,29 @@
 /**
- * Fetch the upstream Camunda OpenAPI spec via a sparse git clone.
+ * Fetch the upstream Camunda OpenAPI spec via a sparse git clone, or offline
+ * from a local clone or a release archive.
  *
  * Mirrors the fetch logic from the JS and C# SDKs, consolidated here
  * so every consuming SDK uses the same mechanism.
  */
-import { execFileSync } from 'node:child_process';
-import { existsSync, mkdirSync, rmSync, cpSync } from 'node:fs';
-import { join, resolve } from 'node:path';
+import { spawn } from 'node:child_process';
+import {
+  existsSync,
+  mkdirSync,
+  rmSync,
+  cpSync,
+  readFileSync,
+  writeFileSync,
+} from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+
+import {
+  FetchCommandError,
+  GitUnavailableError,
+  RefNotFoundError,
+  SpecEntryNotFoundError,
+} from './errors.js';
+import { hashDirectoryTree } from './helpers.js';
+import { defaultLogger, type Logger } from './logger.js';
 
 export interface FetchOptions {
   /** Git repository URL. Default: https://github.com/camunda/camunda.git */
@@ -29,6 +46,100 @@ export interface FetchOptions {
    * Useful for publish-time integrity checks to avoid spec drift.
    */
   skipIfExists?: boolean;
+
+  /** Where the git commands run are logged (at debug level). Default: the console. */
+  logger?: Logger;
+
+  /**
+   * Existing local clone (or mirror) of the upstream repo. The spec
+   * directory is exported at `ref` with `git archive` instead of cloning
+   * `repoUrl`, so no network access is needed; `ref` must resolve in that
+   * repo.
+   */
+  repoPath?: string;
+
+  /**
+   * Source archive of the upstream repo (`.tar.gz`, `.tgz`, `.tar` or
+   * `.zip`) to extract the spec directory from instead of cloning. The repo
+   * tree may be wrapped in one top-level directory, as in GitHub release
+   * archives. `ref` is only used to pick the spec directory (see
+   * `specDirForRef()`).
+   */
+  archivePath?: string;
+
+  /**
+   * Where to record what was fetched (see `SpecLock`), e.g. "spec.lock.json".
+   * Written after every fetch unless `locked` is set. Default: no lock file.
+   */
+  lockFile?: string;
+
+  /**
+   * Fetch exactly the commit pinned in `lockFile` (and its repo URL, ref and
+   * spec directory, unless given explicitly) instead of resolving `ref`
+   * again, and fail if the fetched tree's hash differs from the pinned
+   * `specHash`. With `skipIfExists`, an existing spec is verified the same
+   * way. The lock file is left unchanged.
+   */
+  locked?: boolean;
+
+  /**
+   * Time limit for each git/tar/unzip command, in milliseconds. A command
+   * that exceeds it is stopped and fails with `FetchCommandError`
+   * (`timedOut: true`). Default: 120000.
+   */
+  timeoutMs?: number;
+
+  /**
+   * How often to retry a clone that failed or timed out, with exponential
+   * backoff starting at `retryDelayMs`. A missing ref (`RefNotFoundError`) is
+   * not retried, nor are offline fetches (`repoPath`, `archivePath`).
+   * Default: 2.
+   */
+  retries?: number;
+
+  /** Delay before the first retry; doubled for each further one. Default: 1000 ms. */
+  retryDelayMs?: number;
+
+  /**
+   * Called with each line of progress output from the commands run (git's
+   * "Receiving objects: 45% (...)" etc.) as it streams in.
+   */
+  onProgress?: (progress: FetchProgress) => void;
+}
+
+/** A line of progress output from a fetch command (`FetchOptions.onProgress`). */
+export interface FetchProgress {
+  /** The command reporting progress, e.g. "git clone". */
+  command: string;
+
+  /** The progress line, e.g. "Receiving objects:  45% (123/456)". */
+  message: string;
+
+  /** Percentage parsed from `message`, if it has one. */
+  percent?: number;
+
+  /** 1-based attempt number; greater than 1 while retrying. */
+  attempt: number;
+}
+
+/** Contents of a spec lock file: which upstream tree a fetch produced. */
+export interface SpecLock {
+  repoUrl: string;
+
+  /** The ref as requested, e.g. "main". */
+  ref: string;
+
+  /**
+   * Commit SHA `ref` resolved to. Null when fetched from `archivePath`,
+   * whose commit is unknown.
+   */
+  commit: string | null;
+
+  /** Spec directory relative to the repo root. */
+  specDir: string;
+
+  /** `hashDirectoryTree()` of the fetched spec; equals the bundle's `specHash`. */
+  specHash: string;
 }
 
 export interface FetchResult {
@@ -40,6 +151,12 @@ export interface FetchResult {
 
   /** Whether the fetch was actually performed (false if skipped). */
   fetched: boolean;
+
+  /**
+   * What was fetched. Absent when the fetch was skipped, unless `locked`
+   * (then it is the verified lock).
+   */
+  lock?: SpecLock;
 }
 
 const DEFAULT_REPO_URL = 'https://github.com/camunda/camunda.git';
@@ -47,6 +164,23 @@ const DEFAULT_REF = 'main';
 const DEFAULT_SPEC_DIR = 'zeebe/gateway-protocol/src/main/proto/v2';
 const MONOLITHIC_SPEC_DIR = 'zeebe/gateway-protocol/src/main/proto';
 const DEFAULT_ENTRY_FILE = 'rest-api.yaml';
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1_000;
+
+/** git stderr (lowercased) that means the ref does not exist, as opposed to a transient failure. */
+const REF_NOT_FOUND_PATTERNS = [
+  /remote branch .* not found/,
+  /couldn't find remote ref/,
+  /not our ref/,
+  /not a valid object name/,
+  /not a tree object/,
+  /unknown revision/,
+  /needed a single revision/,
+];
+
+/** `git archive` stderr (lowercased) that means the spec directory does not exist at the ref. */
+const PATHSPEC_NOT_FOUND_PATTERN = /pathspec .* did not match any files/;
 
 /**
  * Determine the upstream spec directory for a given git ref.
@@ -71,57 +205,170 @@ export function specDirForRef(ref: string): string {
  * Fetch the upstream spec via sparse git clone.
  *
  * This does a depth-1, blob-filtered, sparse-checkout clone of the
- * Camunda monorepo, extracting only the OpenAPI spec directory.
- * The result is copied into `outputDir` and the temporary clone is removed.
+ * Camunda monorepo, extracting only the OpenAPI spec directory. With
+ * `repoPath` or `archivePath`, the spec directory is extracted from the
+ * local repo or archive instead. The result is copied into `outputDir` and
+ * the temporary clone is removed.
  */
 export async function fetchSpec(options: FetchOptions): Promise<FetchResult> {
-  const repoUrl = options.repoUrl ?? DEFAULT_REPO_URL;
-  const ref = options.ref ?? DEFAULT_REF;
-  const specDir = options.specDir ?? specDirForRef(ref);
+  validateFetchLimits(options);
+  const pinned = options.locked ? readSpecLock(options.lockFile) : undefined;
+  const repoUrl = options.repoUrl ?? pinned?.repoUrl ?? DEFAULT_REPO_URL;
+  const ref = options.ref ?? pinned?.ref ?? DEFAULT_REF;
+  const specDir = options.specDir ?? pinned?.specDir ?? specDirForRef(ref);
   const entryFile = options.entryFile ?? DEFAULT_ENTRY_FILE;
   const outputDir = resolve(options.outputDir);
+  const logger = options.logger ?? defaultLogger;
+
+  if (options.repoPath && options.archivePath) {
+    throw new Error('repoPath and archivePath are mutually exclusive');
+  }
+  if (pinned && ref !== pinned.ref) {
+    throw new Error(
+      `ref "${ref}" does not match the ref locked in ${options.lockFile} ("${pinned.ref}"). ` +
+        'Unset locked (CLI: --locked) to update the lock file'
+    );
+  }
+  // When locked, fetch the pinned commit rather than wherever `ref` is now.
+  const target = pinned?.commit ?? ref;
 
   const entryPath = join(outputDir, entryFile);
 
   if (options.skipIfExists && existsSync(entryPath)) {
-    return { specDir: outputDir, entryPath, fetched: false };
+    logger.debug(`${entryPath} exists, skipping fetch`);
+    if (pinned) verifySpecHash(outputDir, pinned, options.lockFile!);
+    return { specDir: outputDir, entryPath, fetched: false, lock: pinned };
   }
 
   const tmpDir = join(outputDir, '..', '.tmp-clone-' + Date.now());
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const repo = options.repoPath ?? repoUrl;
+  let attempt = 1;
+
+  const run = async (args: string[]): Promise<Buffer> => {
+    try {
+      return await runCommand(args, {
+        timeoutMs,
+        logger,
+        onProgress:
+          options.onProgress &&
+          ((progress) => options.onProgress!({ ...progress, attempt })),
+      });
+    } catch (err) {
+      if (
+        err instanceof FetchCommandError &&
+        args[0] === 'git' &&
+        !err.timedOut &&
+        REF_NOT_FOUND_PATTERNS.some((p) => p.test(err.stderr.toLowerCase()))
+      ) {
+        throw new RefNotFoundError(target, repo, err);
+      }
+      throw err;
+    }
+  };
 
   try {
     mkdirSync(tmpDir, { recursive: true });
 
-    const run = (args: string[]) =>
-      execFileSync(args[0], args.slice(1), { stdio: 'pipe', timeout: 120_000 });
-
-    if (isCommitSha(ref)) {
-      // Branch/tag refs work with `git clone --branch`; raw commit SHAs do not.
-      // Use init + fetch-by-SHA instead. GitHub permits this because the repo
-      // sets uploadpack.allowReachableSHA1InWant on the server side.
-      run(['git', 'init', tmpDir]);
-      run(['git', '-C', tmpDir, 'remote', 'add', 'origin', repoUrl]);
-      run(['git', '-C', tmpDir, 'fetch', '--depth', '1', '--filter=blob:none', 'origin', ref]);
-      run(['git', '-C', tmpDir, 'sparse-checkout', 'init', '--no-cone']);
-      run(['git', '-C', tmpDir, 'sparse-checkout', 'set', `/${specDir}`]);
-      run(['git', '-C', tmpDir, 'checkout', 'FETCH_HEAD']);
+    let sourceDir = resolve(tmpDir, specDir);
+    let source = `ref: ${ref}`;
+    // Ask git for progress output even though stderr is not a terminal.
+    const progress = options.onProgress ? ['--progress'] : [];
+
+    if (options.archivePath) {
+      const archive = resolve(options.archivePath);
+      sourceDir = await extractSpecFromArchive(archive, specDir, entryFile, tmpDir, run);
+      source = `archive: ${options.archivePath}`;
+    } else if (options.repoPath) {
+      // `git archive` reads the tree straight from the object database, so
+      // the local clone's working tree and checked-out branch are untouched.
+      const tarFile = join(tmpDir, 'spec.tar');
+      try {
+        await run(['git', '-C', resolve(options.repoPath), 'archive', '--format=tar', '-o', tarFile, target, '--', specDir]);
+      } catch (err) {
+        if (
+          err instanceof FetchCommandError &&
+          PATHSPEC_NOT_FOUND_PATTERN.test(err.stderr.toLowerCase())
+        ) {
+          const suffix = `${specDir}/${entryFile}`;
+          throw new SpecEntryNotFoundError(
+            `Upstream spec entry ${suffix} not found in ${options.repoPath} at ${target}`,
+            `${resolve(options.repoPath)}:${suffix}`
+          );
+        }
+        throw err;
+      }
+      await run(['tar', '-xf', tarFile, '-C', tmpDir]);
+      source = `repo: ${options.repoPath}, ref: ${ref}`;
     } else {
-      run(['git', 'clone', '--depth', '1', '--branch', ref, '--filter=blob:none', '--sparse', repoUrl, tmpDir]);
-      run(['git', '-C', tmpDir, 'sparse-checkout', 'init', '--no-cone']);
-      run(['git', '-C', tmpDir, 'sparse-checkout', 'set', `/${specDir}`]);
-      // Force checkout to populate tree with sparse-checkout patterns
-      run(['git', '-C', tmpDir, 'checkout']);
+      // The checkout fetches blobs lazily (`--filter=blob:none`), so the
+      // whole sequence is retried from an empty directory.
+      for (;; attempt++) {
+        try {
+          rmSync(tmpDir, { recursive: true, force: true });
+          mkdirSync(tmpDir, { recursive: true });
+          if (isCommitSha(target)) {
+            // Branch/tag refs work with `git clone --branch`; raw commit SHAs do not.
+            // Use init + fetch-by-SHA instead. GitHub permits this because the repo
+            // sets uploadpack.allowReachableSHA1InWant on the server side.
+            await run(['git', 'init', tmpDir]);
+            await run(['git', '-C', tmpDir, 'remote', 'add', 'origin', repoUrl]);
+            await run(['git', '-C', tmpDir, 'fetch', ...progress, '--depth', '1', '--filter=blob:none', 'origin', target]);
+            await run(['git', '-C', tmpDir, 'sparse-checkout', 'init', '--no-cone']);
+            await run(['git', '-C', tmpDir, 'sparse-checkout', 'set', `/${specDir}`]);
+            await run(['git', '-C', tmpDir, 'checkout', ...progress, 'FETCH_HEAD']);
+          } else {
+            await run(['git', 'clone', ...progress, '--depth', '1', '--branch', target, '--filter=blob:none', '--sparse', repoUrl, tmpDir]);
+            await run(['git', '-C', tmpDir, 'sparse-checkout', 'init', '--no-cone']);
+            await run(['git', '-C', tmpDir, 'sparse-checkout', 'set', `/${specDir}`]);
+            // Force checkout to populate tree with sparse-checkout patterns
+            await run(['git', '-C', tmpDir, 'checkout', ...progress]);
+          }
+          break;
+        } catch (err) {
+          const retryable =
+            err instanceof FetchCommandError && !(err instanceof RefNotFoundError);
+          if (!retryable || attempt > retries) throw err;
+          const delay = retryDelayMs * 2 ** (attempt - 1);
+          logger.warn(
+            `${err.message} (attempt ${attempt}/${retries + 1}); retrying in ${delay} ms`
+          );
+          await new Promise((r) => setTimeout(r, delay));
+        }
+      }
     }
 
-    const sourceDir = resolve(tmpDir, specDir);
     const sourceEntry = resolve(sourceDir, entryFile);
 
     if (!existsSync(sourceEntry)) {
-      throw new Error(
-        `Upstream spec entry not found at ${sourceEntry} (ref: ${ref})`
+      throw new SpecEntryNotFoundError(
+        `Upstream spec entry not found at ${sourceEntry} (${source})`,
+        sourceEntry
       );
     }
 
+    const commit = options.archivePath
+      ? null
+      : (
+          await run(
+            options.repoPath
+              ? ['git', '-C', resolve(options.repoPath), 'rev-parse', `${target}^{commit}`]
+              : ['git', '-C', tmpDir, 'rev-parse', 'HEAD']
+          )
+        )
+          .toString('utf8')
+          .trim();
+    const lock: SpecLock = {
+      repoUrl,
+      ref,
+      commit,
+      specDir,
+      specHash: hashDirectoryTree(sourceDir),
+    };
+    if (pinned) verifySpecHash(sourceDir, pinned, options.lockFile!);
+
     // Replace existing output dir to avoid stale files
     if (existsSync(outputDir)) {
       rmSync(outputDir, { recursive: true, force: true });
@@ -129,7 +376,13 @@ export async function fetchSpec(options: FetchOptions): Promise<FetchResult> {
     mkdirSync(outputDir, { recursive: true });
     cpSync(sourceDir, outputDir, { recursive: true });
 
-    return { specDir: outputDir, entryPath, fetched: true };
+    if (options.lockFile && !pinned) {
+      mkdirSync(dirname(resolve(options.lockFile)), { recursive: true });
+      writeFileSync(options.lockFile, JSON.stringify(lock, null, 2) + '\n');
+      logger.debug(`Wrote ${options.lockFile} (commit: ${commit ?? 'unknown'})`);
+    }
+
+    return { specDir: outputDir, entryPath, fetched: true, lock };
   } finally {
     // Always clean up the temporary clone
     if (existsSync(tmpDir)) {
@@ -140,6 +393,95 @@ export async function fetchSpec(options: FetchOptions): Promise<FetchResult> {
 
 export { DEFAULT_REPO_URL, DEFAULT_REF, DEFAULT_SPEC_DIR, MONOLITHIC_SPEC_DIR, DEFAULT_ENTRY_FILE };
 
+/**
+ * Throw unless `timeoutMs` and `retries` are usable. Shared by `fetchSpec()`
+ * and config file loading, so every source of these settings gets the same
+ * checks.
+ */
+export function validateFetchLimits(
+  limits: Pick<FetchOptions, 'timeoutMs' | 'retries'>
+): void {
+  const { timeoutMs, retries } = limits;
+  if (timeoutMs !== undefined && !(Number.isInteger(timeoutMs) && timeoutMs > 0)) {
+    throw new Error(
+      `Fetch timeout must be a positive number of milliseconds, got ${timeoutMs}`
+    );
+  }
+  if (retries !== undefined && !(Number.isInteger(retries) && retries >= 0)) {
+    throw new Error(`Fetch retries must be a non-negative integer, got ${retries}`);
+  }
+}
+
+/** Read and check the lock file that `locked` pins the fetch to. */
+export function readSpecLock(lockFile: string | undefined): SpecLock {
+  if (!lockFile) {
+    throw new Error('locked requires lockFile (CLI: --lock-file)');
+  }
+  if (!existsSync(lockFile)) {
+    throw new Error(
+      `Lock file ${lockFile} not found. Unset locked (CLI: --locked) to create it`
+    );
+  }
+  const lock = JSON.parse(readFileSync(lockFile, 'utf8')) as Partial<SpecLock>;
+  for (const key of ['repoUrl', 'ref', 'specDir', 'specHash'] as const) {
+    if (typeof lock[key] !== 'string') {
+      throw new Error(`${lockFile}: "${key}" must be a string`);
+    }
+  }
+  if (lock.commit !== null && typeof lock.commit !== 'string') {
+    throw new Error(`${lockFile}: "commit" must be a string or null`);
+  }
+  return lock as SpecLock;
+}
+
+/** Throw unless the spec tree at `dir` hashes to the locked `specHash`. */
+function verifySpecHash(dir: string, lock: SpecLock, lockFile: string): void {
+  const specHash = hashDirectoryTree(dir);
+  if (specHash !== lock.specHash) {
+    throw new Error(
+      `Fetched spec tree hash ${specHash} does not match ${lockFile} (${lock.specHash}` +
+        (lock.commit ? `, commit ${lock.commit}` : '') +
+        ')'
+    );
+  }
+}
+
+/**
+ * Extract `specDir` from a tar (optionally compressed) or zip archive of the
+ * upstream repo into `destDir` and return the extracted directory. The
+ * archive is listed first so that only the spec directory is extracted and
+ * a repo tree wrapped in a top-level directory (`camunda-8.8.0/...`) is found.
+ */
+async function extractSpecFromArchive(
+  archive: string,
+  specDir: string,
+  entryFile: string,
+  destDir: string,
+  run: (args: string[]) => Promise<Buffer>
+): Promise<string> {
+  const isZip = /\.zip$/i.test(archive);
+  const names = (await run(isZip ? ['unzip', '-Z1', archive] : ['tar', '-tf', archive]))
+    .toString('utf8')
+    .split('\n');
+  const suffix = `${specDir}/${entryFile}`;
+  const prefix = names
+    .filter((name) => name.endsWith(suffix))
+    .map((name) => name.slice(0, name.length - suffix.length))
+    .find((p) => /^(\.\/)?([^/]+\/)?$/.test(p));
+  if (prefix === undefined) {
+    throw new SpecEntryNotFoundError(
+      `Upstream spec entry ${suffix} not found in ${archive}`,
+      `${archive}:${suffix}`
+    );
+  }
+  await run(
+    isZip
+      ? ['unzip', '-q', archive, `${prefix}${specDir}/*`, '-d', destDir]
+      : ['tar', '-xf', archive, '-C', destDir, `${prefix}${specDir}`]
+  );
+  return resolve(destDir, prefix, specDir);
+}
+
 /**
  * A ref is treated as a commit SHA if it is 7-40 hexadecimal characters.
  * Branch and tag names that match this shape are vanishingly rare in
@@ -148,3 +490,93 @@ export { DEFAULT_REPO_URL, DEFAULT_REF, DEFAULT_SPEC_DIR, MONOLITHIC_SPEC_DIR, D
 function isCommitSha(ref: string): boolean {
   return /^[0-9a-f]{7,40}$/i.test(ref);
 }
+
+/**
+ * Run a command asynchronously, streaming its stderr to `onProgress` line by
+ * line, and resolve with its stdout. The command is stopped after
+ * `timeoutMs`.
+ */
+function runCommand(
+  args: string[],
+  options: {
+    timeoutMs: number;
+    logger: Logger;
+    onProgress?: (progress: Omit<FetchProgress, 'attempt'>) => void;
+  }
+): Promise<Buffer> {
+  const commandLine = args.join(' ');
+  // "git clone", "git fetch", ... — skipping `-C <dir>`.
+  const command =
+    args[0] === 'git' ? `git ${args[args[1] === '-C' ? 3 : 1]}` : args[0];
+  options.logger.debug(commandLine);
+
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(args[0], args.slice(1), { stdio: ['ignore', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    let stderr = '';
+    let pending = '';
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, options.timeoutMs);
+
+    // git redraws progress lines with \r, so both \r and \n end a line.
+    const emit = (line: string) => {
+      const message = line.trim();
+      if (!message || !options.onProgress) return;
+      const percent = /(\d+)%/.exec(message);
+      options.onProgress({
+        command,
+        message,
+        percent: percent ? Number(percent[1]) : undefined,
+      });
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => {
+      const text = chunk.toString('utf8');
+      stderr += text;
+      const lines = (pending + text).split(/[\r\n]/);
+      pending = lines.pop()!;
+      lines.forEach(emit);
+    });
+
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(
+        err.code === 'ENOENT' && args[0] === 'git'
+          ? new GitUnavailableError({ cause: err })
+          : new FetchCommandError(`${commandLine} failed: ${err.message}`, {
+              command: commandLine,
+              stderr: '',
+            })
+      );
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      emit(pending);
+      if (code === 0 && !timedOut) {
+        resolvePromise(Buffer.concat(stdout));
+        return;
+      }
+      const details = { command: commandLine, stderr: stderr.trim(), timedOut };
+      reject(
+        new FetchCommandError(
+          timedOut
+            ? `${command} timed out after ${options.timeoutMs} ms`
+            : `${commandLine} failed (exit code ${code}): ${lastErrorLine(details.stderr)}`,
+          details
+        )
+      );
+    });
+  });
+}
+
+/** The most telling line of a command's stderr: the last fatal/error line, else the last line. */
+function lastErrorLine(stderr: string): string {
+  const lines = stderr.split(/[\r\n]+/).filter((l) => l.trim() !== '');
+  const errors = lines.filter((l) => /^(fatal|error):/i.test(l));
+  return (errors.at(-1) ?? lines.at(-1) ?? '(no output)').trim();
+}
@@ -108,6 +108,13 @@ export function jsonPointerDecode(segment: string): string {
   return decodeURIComponent(segment.replace(/~1/g, '/').replace(/~0/g, '~'));
 }
 
+/**
+ * Encode an object key as a JSON Pointer segment.
+ */
+export function jsonPointerEncode(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
 /**
  * Resolve an internal $ref (e.g. `#/components/schemas/Foo`) against a root document.
  *
@@ -229,6 +236,118 @@ export function sortRequiredArrays(root: unknown): void {
   }
 }
 
+/** OpenAPI 3.x top-level fields, in the order the specification lists them. */
+const OPENAPI_TOP_LEVEL_ORDER = [
+  'openapi',
+  'info',
+  'jsonSchemaDialect',
+  'servers',
+  'paths',
+  'webhooks',
+  'components',
+  'security',
+  'tags',
+  'externalDocs',
+];
+
+/** OpenAPI 3.x `components` buckets, in the order the specification lists them. */
+const OPENAPI_COMPONENTS_ORDER = [
+  'schemas',
+  'responses',
+  'parameters',
+  'examples',
+  'requestBodies',
+  'headers',
+  'securitySchemes',
+  'links',
+  'callbacks',
+  'pathItems',
+];
+
+/**
+ * Reorder object keys of a bundled OpenAPI document in-place so that its
+ * serialization no longer depends on the order in which upstream files were
+ * visited:
+ *
+ * - top-level fields and `components` buckets follow the order of the
+ *   OpenAPI specification (unknown and `x-` keys keep their relative order
+ *   after the known ones);
+ * - `paths` and the entries of every `components` bucket are sorted by key;
+ * - every schema `properties` map is sorted by property name.
+ *
+ * Only key order changes — object identity is preserved (callers may hold
+ * references to e.g. `components.schemas`), and arrays (`enum`, `tags`,
+ * `parameters`, …) are left untouched because their order can be
+ * meaningful. Example payloads are not descended into.
+ */
+export function sortCanonically(root: Record<string, unknown>): void {
+  reorderKeys(root, orderBy(OPENAPI_TOP_LEVEL_ORDER));
+
+  const paths = root['paths'];
+  if (paths && typeof paths === 'object') {
+    reorderKeys(paths as Record<string, unknown>, compareKeys);
+  }
+
+  const components = root['components'];
+  if (components && typeof components === 'object') {
+    const c = components as Record<string, unknown>;
+    reorderKeys(c, orderBy(OPENAPI_COMPONENTS_ORDER));
+    for (const bucket of Object.values(c)) {
+      if (bucket && typeof bucket === 'object' && !Array.isArray(bucket)) {
+        reorderKeys(bucket as Record<string, unknown>, compareKeys);
+      }
+    }
+  }
+
+  const stack: unknown[] = [root];
+  const seen = new Set<unknown>();
+  while (stack.length) {
+    const cur = stack.pop();
+    if (!cur || typeof cur !== 'object' || seen.has(cur)) continue;
+    seen.add(cur);
+    if (Array.isArray(cur)) {
+      for (const item of cur) stack.push(item);
+      continue;
+    }
+    for (const [key, val] of Object.entries(cur as Record<string, unknown>)) {
+      if (key === 'example' || key === 'examples') continue;
+      if (key === 'properties' && val && typeof val === 'object' && !Array.isArray(val)) {
+        // A properties map: sort it, then continue with each property
+        // schema — never with the map itself, so a property that happens to
+        // be named `properties` is not mistaken for the keyword.
+        reorderKeys(val as Record<string, unknown>, compareKeys);
+        seen.add(val);
+        for (const propSchema of Object.values(val)) stack.push(propSchema);
+        continue;
+      }
+      stack.push(val);
+    }
+  }
+}
+
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Comparator placing `known` keys first, in that order; others keep their order. */
+function orderBy(known: string[]): (a: string, b: string) => number {
+  const rank = (k: string) => {
+    const i = known.indexOf(k);
+    return i === -1 ? known.length : i;
+  };
+  return (a, b) => rank(a) - rank(b);
+}
+
+/** Re-insert the keys of `obj` in `compare` order, keeping `obj`'s identity. */
+function reorderKeys(
+  obj: Record<string, unknown>,
+  compare: (a: string, b: string) => number
+): void {
+  const entries = Object.entries(obj).sort(([a], [b]) => compare(a, b));
+  for (const [k] of entries) delete obj[k];
+  for (const [k, v] of entries) obj[k] = v;
+}
+
 /**
  * Visit every `parameters` array reachable under `paths`, at both the
  * path-item level (`paths./foo.parameters`) and the operation level
@@ -290,6 +409,113 @@ export function findPathLocalParameterRefs(
   return found;
 }
 
+/**
+ * Find internal `$ref`s whose target does not exist in `root`, as
+ * `<referrer pointer> -> <ref>` strings (e.g.
+ * `#/paths/~1jobs/get/responses/200/content/application~1json/schema -> #/components/schemas/Job`).
+ *
+ * Targets are resolved with `resolveInternalRef()`, so refs that point
+ * *through* another `$ref` count as resolvable. External refs are ignored;
+ * the bundle has none by construction. An object reachable from several
+ * places is reported at the first location visited.
+ */
+export function findDanglingRefs(root: Record<string, unknown>): string[] {
+  const found: string[] = [];
+  const stack: { node: unknown; pointer: string }[] = [
+    { node: root, pointer: '#' },
+  ];
+  const seen = new Set<unknown>();
+  while (stack.length) {
+    const { node, pointer } = stack.pop()!;
+    if (!node || typeof node !== 'object' || seen.has(node)) continue;
+    seen.add(node);
+    const entries: [string, unknown][] = Array.isArray(node)
+      ? node.map((v, i) => [String(i), v])
+      : Object.entries(node as Record<string, unknown>);
+    const ref = Array.isArray(node)
+      ? undefined
+      : (node as Record<string, unknown>)['$ref'];
+    if (
+      typeof ref === 'string' &&
+      ref.startsWith('#/') &&
+      resolveInternalRef(root, ref) === undefined
+    ) {
+      found.push(`${pointer} -> ${ref}`);
+    }
+    // Push in reverse so locations are visited (and reported) in document order.
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const [k, v] = entries[i];
+      stack.push({
+        node: v,
+        pointer: `${pointer}/${jsonPointerEncode(k)}`,
+      });
+    }
+  }
+  return found;
+}
+
+/**
+ * Names of the component schemas reachable from the rest of the document —
+ * `paths`, `webhooks` and every non-schema `components` bucket — plus the
+ * schemas named in `roots`, following `$ref`s (including refs *into* a
+ * schema, e.g. `#/components/schemas/X/properties/y`) and discriminator
+ * `mapping` values transitively.
+ *
+ * Non-schema components count as roots so that removing every schema not in
+ * the result can never leave a dangling `$ref` behind.
+ */
+export function findReachableSchemas(
+  root: Record<string, unknown>,
+  roots: string[] = []
+): Set<string> {
+  const components = (root['components'] ?? {}) as Record<string, unknown>;
+  const schemas = (components['schemas'] ?? {}) as Record<string, unknown>;
+  const reachable = new Set<string>();
+  const stack: unknown[] = [];
+
+  const reach = (name: string) => {
+    if (reachable.has(name) || !(name in schemas)) return;
+    reachable.add(name);
+    stack.push(schemas[name]);
+  };
+  const reachRef = (ref: string) => {
+    const m = ref.match(/^#\/components\/schemas\/([^/]+)/);
+    if (m) reach(jsonPointerDecode(m[1]));
+  };
+
+  for (const [key, val] of Object.entries(root)) {
+    if (key !== 'components') stack.push(val);
+  }
+  for (const [key, val] of Object.entries(components)) {
+    if (key !== 'schemas') stack.push(val);
+  }
+  for (const name of roots) reach(name);
+
+  const seen = new Set<unknown>();
+  while (stack.length) {
+    const cur = stack.pop();
+    if (!cur || typeof cur !== 'object' || seen.has(cur)) continue;
+    seen.add(cur);
+    if (Array.isArray(cur)) {
+      for (const item of cur) stack.push(item);
+      continue;
+    }
+    const obj = cur as Record<string, unknown>;
+    if (typeof obj['$ref'] === 'string') reachRef(obj['$ref']);
+    const discriminator = obj['discriminator'];
+    if (discriminator && typeof discriminator === 'object') {
+      const mapping = (discriminator as Record<string, unknown>)['mapping'];
+      if (mapping && typeof mapping === 'object') {
+        for (const target of Object.values(mapping)) {
+          if (typeof target === 'string') reachRef(target);
+        }
+      }
+    }
+    for (const v of Object.values(obj)) stack.push(v);
+  }
+  return reachable;
+}
+
 /**
  * Count path-local $like refs in the bundled spec (should be 0 after normalization).
  */
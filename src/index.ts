@@ -5,14 +5,53 @@
  * with schema normalization and metadata extraction.
  */
 export { bundle } from './bundle.js';
-export { fetchSpec, specDirForRef } from './fetch.js';
+export { fetchSpec, specDirForRef, readSpecLock } from './fetch.js';
 export { fetchAndBundle } from './fetch-and-bundle.js';
+export {
+  FetchCommandError,
+  RefNotFoundError,
+  SpecEntryNotFoundError,
+  GitUnavailableError,
+} from './errors.js';
 export { detectUpstreamRef } from './detect-ref.js';
+export {
+  diffBundles,
+  formatDiff,
+  hasChanges,
+  readDiffInput,
+  DIFF_SECTIONS,
+} from './diff.js';
+export {
+  classifyChanges,
+  classifyDiff,
+  formatClassification,
+  hasBreakingChanges,
+} from './classify.js';
+export { generateChangelog, renderChangelog } from './changelog.js';
+export { watchBundle, formatStatsDelta } from './watch.js';
+export { checkBundle, formatCheck } from './check.js';
+export { validateBundledSpec, validateSpecMetadata } from './validate.js';
+export { SPEC_METADATA_SCHEMA } from './metadata-schema.js';
+export { readProfilesFile } from './profiles.js';
+export { readOverridesFile } from './overrides.js';
+export { findConfigFile, loadConfig, CONFIG_FILE_NAMES } from './config.js';
+export { createConsoleLogger, defaultLogger, silentLogger } from './logger.js';
+export { PLUGIN_STAGES } from './plugins.js';
 export type {
   BundleOptions,
   BundleResult,
   BundleStats,
+  BundleReport,
+  BundleProvenance,
+  ProvenanceOptions,
+  AmbiguousInline,
+  BundleProfile,
+  BundleProfileOption,
+  DecisionLogEntry,
+  DecisionStrategy,
   FetchAndBundleOptions,
+  SpecOutputFormat,
+  ValidationMode,
   SpecMetadata,
   SemanticKeyEntry,
   UnionEntry,
@@ -25,8 +64,45 @@ export type {
   DeprecatedEnumSchemaEntry,
   DeprecatedEnumMemberEntry,
   SemanticProviderEntry,
+  MetadataExtractor,
+  MetadataExtractorContext,
 } from './types.js';
-export type { FetchOptions, FetchResult } from './fetch.js';
+export type {
+  FetchOptions,
+  FetchProgress,
+  FetchResult,
+  SpecLock,
+} from './fetch.js';
+export type {
+  BundleDiff,
+  DiffChangeKind,
+  DiffEntry,
+  DiffInput,
+  DiffSection,
+} from './diff.js';
+export type { ChangeSeverity, ClassifiedChange } from './classify.js';
+export type { ChangelogOptions, RenderChangelogOptions } from './changelog.js';
+export type { SpecValidationIssue } from './validate.js';
+export type { BundlerConfig } from './config.js';
+export type {
+  Logger,
+  LogLevel,
+  LogFormat,
+  ConsoleLoggerOptions,
+} from './logger.js';
+export type {
+  BundlerPlugin,
+  PluginStage,
+  PluginContext,
+  BeforeWriteContext,
+} from './plugins.js';
+export type {
+  WatchBundleOptions,
+  WatchBundleEvent,
+  StatsDeltaEntry,
+  BundleWatcher,
+} from './watch.js';
+export type { CheckResult, OutputCheck, OutputCheckStatus } from './check.js';
 export {
   hashDirectoryTree,
   listFilesRecursive,
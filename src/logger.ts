@@ -0,0 +1,80 @@
+/**
+ * Logging for the bundler. Library callers can pass any `Logger` (e.g. an
+ * adapter to their build tool's logger, or `silentLogger`); the default
+ * prints `[camunda-schema-bundler]`-prefixed lines to the console.
+ */
+
+export interface Logger {
+  /** Detail useful when diagnosing a bundle (step timings, git commands). Not printed by default. */
+  debug(message: string): void;
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFormat = 'text' | 'json';
+
+export interface ConsoleLoggerOptions {
+  /** Lowest level that is printed. Default: "info". */
+  level?: LogLevel;
+
+  /**
+   * `text` (default) prints prefixed lines; `json` prints one
+   * `{"level":…,"message":…}` object per line. Either way `debug` / `info`
+   * go through `console.log`, `warn` through `console.warn` and `error`
+   * through `console.error`.
+   */
+  format?: LogFormat;
+
+  /**
+   * If true, every level goes through `console.error` (stderr), keeping
+   * stdout free for a command's own output. Default: false.
+   */
+  stderr?: boolean;
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const TEXT_PREFIX: Record<LogLevel, string> = {
+  debug: '[camunda-schema-bundler] DEBUG: ',
+  info: '[camunda-schema-bundler] ',
+  warn: '[camunda-schema-bundler] WARNING: ',
+  error: '[camunda-schema-bundler] ',
+};
+
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const { level: minLevel = 'info', format = 'text', stderr = false } = options;
+  const enabled = (level: LogLevel) =>
+    LEVELS.indexOf(level) >= LEVELS.indexOf(minLevel);
+
+  const emit = (level: LogLevel) => (message: string) => {
+    if (!enabled(level)) return;
+    const line =
+      format === 'json'
+        ? JSON.stringify({ level, message })
+        : `${TEXT_PREFIX[level]}${message}`;
+    if (level === 'error' || stderr) console.error(line);
+    else if (level === 'warn') console.warn(line);
+    else console.log(line);
+  };
+
+  return {
+    debug: emit('debug'),
+    info: emit('info'),
+    warn: emit('warn'),
+    error: emit('error'),
+  };
+}
+
+/** Logger used when none is given: text format, `info` and above. */
+export const defaultLogger: Logger = createConsoleLogger();
+
+/** Logger that discards everything. */
+export const silentLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
@@ -0,0 +1,697 @@
+/**
+ * JSON Schema (draft-07) for `spec-metadata.json` (`SpecMetadata`).
+ *
+ * GENERATED from src/types.ts by scripts/generate-metadata-schema.mjs — do
+ * not edit by hand. Run `npm run generate:metadata-schema` after changing
+ * the metadata IR types.
+ */
+export const SPEC_METADATA_SCHEMA: Record<string, unknown> = {
+  "$schema": "http://json-schema.org/draft-07/schema#",
+  "title": "SpecMetadata",
+  "type": "object",
+  "properties": {
+    "schemaVersion": {
+      "type": "string"
+    },
+    "specHash": {
+      "description": "SHA-256 hash of the upstream spec directory tree for drift detection.",
+      "type": "string"
+    },
+    "provenance": {
+      "description": "Where the bundle came from; present only with `BundleOptions.provenance`.",
+      "$ref": "#/definitions/BundleProvenance"
+    },
+    "semanticKeys": {
+      "description": "Schemas marked with x-semantic-type or x-semantic-key.",
+      "type": "array",
+      "items": {
+        "$ref": "#/definitions/SemanticKeyEntry"
+      }
+    },
+    "unions": {
+      "description": "Union/variant types (oneOf/anyOf structures).",
+      "type": "array",
+      "items": {
+        "$ref": "#/definitions/UnionEntry"
+      }
+    },
+    "arrays": {
+      "description": "Array schemas with bounds.",
+      "type": "array",
+      "items": {
+        "$ref": "#/definitions/ArraySchemaEntry"
+      }
+    },
+    "eventuallyConsistentOps": {
+      "description": "Operations with eventual consistency markers.",
+      "type": "array",
+      "items": {
+        "$ref": "#/definitions/EventuallyConsistentOp"
+      }
+    },
+    "operations": {
+      "description": "All operation summaries.",
+      "type": "array",
+      "items": {
+        "$ref": "#/definitions/OperationSummary"
+      }
+    },
+    "deprecatedEnumMembers": {
+      "description": "Enum schemas with deprecated members (x-deprecated-enum-members).",
+      "type": "array",
+      "items": {
+        "$ref": "#/definitions/DeprecatedEnumSchemaEntry"
+      }
+    },
+    "semanticProviders": {
+      "description": "Schemas annotated with x-semantic-provider (result schemas with identity fields).",
+      "type": "array",
+      "items": {
+        "$ref": "#/definitions/SemanticProviderEntry"
+      }
+    },
+    "extensions": {
+      "description": "Sections produced by custom `metadataExtractors`, keyed by extractor name. Present only when at least one extractor is set.",
+      "type": "object",
+      "additionalProperties": {
+        "type": "array",
+        "items": true
+      }
+    },
+    "integrity": {
+      "description": "Integrity counters for validation.",
+      "type": "object",
+      "properties": {
+        "totalSemanticKeys": {
+          "type": "number"
+        },
+        "totalUnions": {
+          "type": "number"
+        },
+        "totalOperations": {
+          "type": "number"
+        },
+        "totalEventuallyConsistent": {
+          "type": "number"
+        },
+        "totalDeprecatedEnumSchemas": {
+          "type": "number"
+        },
+        "totalSemanticProviders": {
+          "type": "number"
+        },
+        "extensions": {
+          "description": "Entry count per custom extractor, keyed by extractor name.",
+          "type": "object",
+          "additionalProperties": {
+            "type": "number"
+          }
+        }
+      },
+      "required": [
+        "totalSemanticKeys",
+        "totalUnions",
+        "totalOperations",
+        "totalEventuallyConsistent",
+        "totalDeprecatedEnumSchemas",
+        "totalSemanticProviders"
+      ],
+      "additionalProperties": false
+    }
+  },
+  "required": [
+    "schemaVersion",
+    "specHash",
+    "semanticKeys",
+    "unions",
+    "arrays",
+    "eventuallyConsistentOps",
+    "operations",
+    "deprecatedEnumMembers",
+    "semanticProviders",
+    "integrity"
+  ],
+  "additionalProperties": false,
+  "definitions": {
+    "ArraySchemaEntry": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string"
+        },
+        "itemRef": {
+          "type": "string"
+        },
+        "itemType": {
+          "type": "string"
+        },
+        "minItems": {
+          "type": "number"
+        },
+        "maxItems": {
+          "type": "number"
+        },
+        "uniqueItems": {
+          "type": "boolean"
+        }
+      },
+      "required": [
+        "name"
+      ],
+      "additionalProperties": false
+    },
+    "BundleProvenance": {
+      "description": "Where a bundle came from and how it was produced (`BundleOptions.provenance`). Embedded as `info['x-camunda-bundle']` and `SpecMetadata.provenance`.",
+      "type": "object",
+      "properties": {
+        "ref": {
+          "description": "Git ref the spec was fetched from, when known.",
+          "type": "string"
+        },
+        "commit": {
+          "description": "Commit SHA the ref resolved to, when known.",
+          "type": "string"
+        },
+        "repoUrl": {
+          "description": "Upstream repository URL, when known.",
+          "type": "string"
+        },
+        "specHash": {
+          "description": "Hash of the upstream spec directory tree (`SpecMetadata.specHash`).",
+          "type": "string"
+        },
+        "bundlerVersion": {
+          "description": "Version of camunda-schema-bundler that produced the bundle.",
+          "type": "string"
+        },
+        "profile": {
+          "description": "Profile name, for a profile's output.",
+          "type": "string"
+        },
+        "options": {
+          "$ref": "#/definitions/ProvenanceOptions"
+        }
+      },
+      "required": [
+        "specHash",
+        "bundlerVersion",
+        "options"
+      ],
+      "additionalProperties": false
+    },
+    "DeprecatedEnumMemberEntry": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "description": "The enum member value (e.g. \"UNSPECIFIED\").",
+          "type": "string"
+        },
+        "deprecatedInVersion": {
+          "description": "The version in which this member was deprecated (e.g. \"8.9.0\").",
+          "type": "string"
+        }
+      },
+      "required": [
+        "name",
+        "deprecatedInVersion"
+      ],
+      "additionalProperties": false
+    },
+    "DeprecatedEnumSchemaEntry": {
+      "type": "object",
+      "properties": {
+        "schemaName": {
+          "description": "The component schema name (e.g. \"DecisionDefinitionTypeEnum\").",
+          "type": "string"
+        },
+        "enumValues": {
+          "description": "All enum values defined on this schema.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "deprecatedMembers": {
+          "description": "The members marked as deprecated via x-deprecated-enum-members.",
+          "type": "array",
+          "items": {
+            "$ref": "#/definitions/DeprecatedEnumMemberEntry"
+          }
+        },
+        "stableId": {
+          "description": "Stable kebab-case identifier for changelog / diffing.",
+          "type": "string"
+        }
+      },
+      "required": [
+        "schemaName",
+        "enumValues",
+        "deprecatedMembers",
+        "stableId"
+      ],
+      "additionalProperties": false
+    },
+    "EventuallyConsistentOp": {
+      "type": "object",
+      "properties": {
+        "operationId": {
+          "type": "string"
+        },
+        "path": {
+          "type": "string"
+        },
+        "method": {
+          "type": "string"
+        },
+        "tags": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        }
+      },
+      "required": [
+        "operationId",
+        "path",
+        "method",
+        "tags"
+      ],
+      "additionalProperties": false
+    },
+    "OperationQueryParam": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string"
+        },
+        "required": {
+          "type": "boolean"
+        }
+      },
+      "required": [
+        "name",
+        "required"
+      ],
+      "additionalProperties": false
+    },
+    "OperationSummary": {
+      "type": "object",
+      "properties": {
+        "operationId": {
+          "type": "string"
+        },
+        "path": {
+          "type": "string"
+        },
+        "method": {
+          "type": "string"
+        },
+        "tags": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "summary": {
+          "type": "string"
+        },
+        "description": {
+          "type": "string"
+        },
+        "eventuallyConsistent": {
+          "type": "boolean"
+        },
+        "hasRequestBody": {
+          "type": "boolean"
+        },
+        "requestBodyUnion": {
+          "type": "boolean"
+        },
+        "bodyOnly": {
+          "description": "True when the operation has a JSON-like body and no path/query parameters.",
+          "type": "boolean"
+        },
+        "pathParams": {
+          "description": "Names of path parameters (e.g. ['processInstanceKey']).",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "queryParams": {
+          "description": "Query parameters with required flag.",
+          "type": "array",
+          "items": {
+            "$ref": "#/definitions/OperationQueryParam"
+          }
+        },
+        "requestBodyUnionRefs": {
+          "description": "For union request bodies: the $ref target schema names.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "optionalTenantIdInBody": {
+          "description": "Whether the (resolved) request body has an optional tenantId property.",
+          "type": "boolean"
+        },
+        "sourceFile": {
+          "description": "Source YAML file the operation came from, relative to the spec dir. Replaces the join previously required against `endpoint-map.json`. Empty string when the source file is unknown (e.g. when `extractMetadata` is called directly without a source-file map).",
+          "type": "string"
+        },
+        "requestBodyContentTypes": {
+          "description": "Content-type keys declared on `requestBody.content` (e.g. `['application/json']`, `['multipart/form-data']`). Empty when there is no request body.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "requestBodySchemaRef": {
+          "description": "Component schema name referenced by the request body (`$ref` short name, no `#/components/schemas/` prefix). Resolved by scanning every entry under `requestBody.content` and returning the first one whose `schema` is a `$ref` — inline schemas are skipped, so a later media type with a `$ref` can win over an earlier one with an inline schema. `undefined` when no content entry has a `$ref` schema, or when there is no request body.",
+          "type": "string"
+        },
+        "successResponseSchemaRef": {
+          "description": "Component schema name referenced by the chosen 2xx response's `application/json` content. `undefined` when the success response is empty, inline, or non-JSON.",
+          "type": "string"
+        },
+        "successStatus": {
+          "description": "The chosen 2xx status code (200/201/204/…), if any.",
+          "type": "number"
+        },
+        "vendorExtensions": {
+          "description": "Pass-through of all `x-*` keys declared on the operation. Promoted extensions (`x-eventually-consistent`) keep their first-class fields and are also included here for completeness.",
+          "type": "object",
+          "additionalProperties": true
+        }
+      },
+      "required": [
+        "operationId",
+        "path",
+        "method",
+        "tags",
+        "eventuallyConsistent",
+        "hasRequestBody",
+        "requestBodyUnion",
+        "bodyOnly",
+        "pathParams",
+        "queryParams",
+        "requestBodyUnionRefs",
+        "optionalTenantIdInBody",
+        "sourceFile",
+        "requestBodyContentTypes"
+      ],
+      "additionalProperties": false
+    },
+    "ProvenanceOptions": {
+      "description": "The effective bundle options that shape the output, with defaults applied.",
+      "type": "object",
+      "properties": {
+        "entryFile": {
+          "type": "string"
+        },
+        "dereferencePathLocalRefs": {
+          "type": "boolean"
+        },
+        "allowPathLocalLikeRefs": {
+          "type": "boolean"
+        },
+        "allowPathLocalParameterRefs": {
+          "type": "boolean"
+        },
+        "allowAmbiguousInlines": {
+          "type": "boolean"
+        },
+        "allowDanglingRefs": {
+          "type": "boolean"
+        },
+        "pruneUnusedSchemas": {
+          "type": "boolean"
+        },
+        "canonicalOrder": {
+          "type": "boolean"
+        },
+        "validate": {
+          "$ref": "#/definitions/ValidationMode"
+        },
+        "keepSchemas": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "includeTags": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "excludeTags": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "includeOperations": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "manualOverrides": {
+          "description": "User-supplied manual overrides (the built-in ones are implied by the version).",
+          "type": "object",
+          "additionalProperties": {
+            "type": "string"
+          }
+        }
+      },
+      "required": [
+        "entryFile",
+        "dereferencePathLocalRefs",
+        "allowPathLocalLikeRefs",
+        "allowPathLocalParameterRefs",
+        "allowAmbiguousInlines",
+        "allowDanglingRefs",
+        "pruneUnusedSchemas",
+        "canonicalOrder",
+        "validate"
+      ],
+      "additionalProperties": false
+    },
+    "SchemaConstraints": {
+      "type": "object",
+      "properties": {
+        "pattern": {
+          "type": "string"
+        },
+        "minLength": {
+          "type": "number"
+        },
+        "maxLength": {
+          "type": "number"
+        },
+        "format": {
+          "type": "string"
+        }
+      },
+      "additionalProperties": false
+    },
+    "SemanticKeyEntry": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string"
+        },
+        "semanticType": {
+          "type": "string"
+        },
+        "category": {
+          "type": "string",
+          "enum": [
+            "system-key",
+            "cursor",
+            "model-id",
+            "other"
+          ]
+        },
+        "description": {
+          "type": "string"
+        },
+        "composition": {
+          "type": "object",
+          "properties": {
+            "schemaKind": {
+              "type": "string",
+              "enum": [
+                "allOf",
+                "oneOf",
+                "anyOf",
+                "inline"
+              ]
+            },
+            "refs": {
+              "type": "array",
+              "items": {
+                "type": "string"
+              }
+            },
+            "inlineFragments": {
+              "type": "number"
+            }
+          },
+          "required": [
+            "schemaKind",
+            "refs",
+            "inlineFragments"
+          ],
+          "additionalProperties": false
+        },
+        "constraints": {
+          "$ref": "#/definitions/SchemaConstraints"
+        },
+        "examples": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "extensions": {
+          "type": "object",
+          "additionalProperties": true
+        },
+        "flags": {
+          "type": "object",
+          "properties": {
+            "semanticKey": {
+              "type": "boolean"
+            },
+            "includesLongKeyRef": {
+              "type": "boolean"
+            },
+            "deprecated": {
+              "type": "boolean"
+            }
+          },
+          "required": [
+            "semanticKey",
+            "includesLongKeyRef",
+            "deprecated"
+          ],
+          "additionalProperties": false
+        },
+        "stableId": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "name",
+        "semanticType",
+        "category",
+        "composition",
+        "constraints",
+        "flags",
+        "stableId"
+      ],
+      "additionalProperties": false
+    },
+    "SemanticProviderEntry": {
+      "type": "object",
+      "properties": {
+        "schemaName": {
+          "description": "The component schema name (e.g. \"CreateProcessInstanceResult\").",
+          "type": "string"
+        },
+        "providers": {
+          "description": "Property names listed in x-semantic-provider.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "stableId": {
+          "description": "Stable kebab-case identifier for changelog / diffing.",
+          "type": "string"
+        }
+      },
+      "required": [
+        "schemaName",
+        "providers",
+        "stableId"
+      ],
+      "additionalProperties": false
+    },
+    "UnionBranch": {
+      "type": "object",
+      "properties": {
+        "branchType": {
+          "type": "string",
+          "enum": [
+            "ref",
+            "composed",
+            "uuid",
+            "other"
+          ]
+        },
+        "ref": {
+          "type": "string"
+        },
+        "refs": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "constraints": {
+          "$ref": "#/definitions/SchemaConstraints"
+        }
+      },
+      "required": [
+        "branchType"
+      ],
+      "additionalProperties": false
+    },
+    "UnionEntry": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string"
+        },
+        "kind": {
+          "type": "string",
+          "enum": [
+            "union-wrapper",
+            "hybrid-union"
+          ]
+        },
+        "description": {
+          "type": "string"
+        },
+        "branches": {
+          "type": "array",
+          "items": {
+            "$ref": "#/definitions/UnionBranch"
+          }
+        },
+        "stableId": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "name",
+        "kind",
+        "branches",
+        "stableId"
+      ],
+      "additionalProperties": false
+    },
+    "ValidationMode": {
+      "type": "string",
+      "enum": [
+        "off",
+        "warn",
+        "error"
+      ]
+    }
+  }
+};
@@ -9,6 +9,7 @@
  * - Operation summaries
  */
 import type {
+  MetadataExtractor,
   SpecMetadata,
   SemanticKeyEntry,
   UnionEntry,
@@ -26,13 +27,38 @@ import type {
 const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'trace'] as const;
 
 /**
- * Extract metadata from the bundled OpenAPI spec.
+ * Throw if an extractor's name is not a camelCase identifier or is used
+ * twice.
+ */
+export function validateMetadataExtractors(extractors: MetadataExtractor[]): void {
+  const names = new Set<string>();
+  for (const extractor of extractors) {
+    const { name } = extractor;
+    if (typeof name !== 'string' || !/^[a-z][A-Za-z0-9]*$/.test(name)) {
+      throw new Error(
+        `Metadata extractor name ${JSON.stringify(name)} is not a camelCase identifier`
+      );
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicate metadata extractor name: "${name}"`);
+    }
+    if (typeof extractor.extract !== 'function') {
+      throw new Error(`Metadata extractor "${name}" has no extract() function`);
+    }
+    names.add(name);
+  }
+}
+
+/**
+ * Extract metadata from the bundled OpenAPI spec, plus one `extensions`
+ * section per custom extractor (see `validateMetadataExtractors`).
  */
 export function extractMetadata(
   spec: Record<string, unknown>,
   schemas: Record<string, unknown>,
   specHash: string,
-  sourceFileByOp?: Map<string, string>
+  sourceFileByOp?: Map<string, string>,
+  extractors: MetadataExtractor[] = []
 ): SpecMetadata {
   const semanticKeys = extractSemanticKeys(schemas);
   const unions = extractUnions(schemas);
@@ -43,6 +69,15 @@ export function extractMetadata(
   );
   const deprecatedEnumMembers = extractDeprecatedEnumMembers(schemas);
   const semanticProviders = extractSemanticProviders(schemas);
+  const custom = extractors.map((extractor) => {
+    const entries = extractor.extract({ spec, schemas });
+    if (!Array.isArray(entries)) {
+      throw new Error(
+        `Metadata extractor "${extractor.name}" must return an array`
+      );
+    }
+    return [extractor.name, entries] as const;
+  });
 
   return {
     schemaVersion: '2.0.0',
@@ -54,6 +89,7 @@ export function extractMetadata(
     operations,
     deprecatedEnumMembers: deprecatedEnumMembers.sort((a, b) => a.schemaName.localeCompare(b.schemaName)),
     semanticProviders: semanticProviders.sort((a, b) => a.schemaName.localeCompare(b.schemaName)),
+    ...(custom.length > 0 && { extensions: Object.fromEntries(custom) }),
     integrity: {
       totalSemanticKeys: semanticKeys.length,
       totalUnions: unions.length,
@@ -61,6 +97,11 @@ export function extractMetadata(
       totalEventuallyConsistent: eventuallyConsistentOps.length,
       totalDeprecatedEnumSchemas: deprecatedEnumMembers.length,
       totalSemanticProviders: semanticProviders.length,
+      ...(custom.length > 0 && {
+        extensions: Object.fromEntries(
+          custom.map(([name, entries]) => [name, entries.length])
+        ),
+      }),
     },
   };
 }
@@ -0,0 +1,149 @@
+/**
+ * Serialization of bundle results to their on-disk output files.
+ *
+ * Kept separate from `bundle()` so that callers which decide *whether* to
+ * write (watch mode, drift checks) produce exactly the bytes `bundle()` would.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { stringify as stringifyYaml } from 'yaml';
+
+import { resolveProfileOptions } from './profiles.js';
+import type { BundleOptions, BundleProfile, BundleResult } from './types.js';
+
+export interface OutputFile {
+  /** Destination path, as given in the bundle options. */
+  path: string;
+
+  /** Exact bytes to write. */
+  content: string | Buffer;
+}
+
+/**
+ * Render every output file requested by `options` for `result`.
+ *
+ * The semantic-kinds registry is copied from `<specDir>/semantic-kinds.json`
+ * byte-for-byte; it is omitted when the registry is absent (`result.semanticKinds`
+ * is null).
+ */
+export function renderOutputFiles(
+  result: BundleResult,
+  options: BundleOptions
+): OutputFile[] {
+  const files: OutputFile[] = [];
+
+  if (options.outputSpec) {
+    files.push({
+      path: options.outputSpec,
+      content:
+        options.outputSpecFormat === 'yaml'
+          ? serializeSpecYaml(result.spec)
+          : JSON.stringify(result.spec, null, 2) + '\n',
+    });
+  }
+
+  if (options.outputMetadata) {
+    files.push({
+      path: options.outputMetadata,
+      content: JSON.stringify(result.metadata, null, 2) + '\n',
+    });
+  }
+
+  if (options.outputEndpointMap) {
+    files.push({
+      path: options.outputEndpointMap,
+      content: JSON.stringify(result.endpointMap, null, 2) + '\n',
+    });
+  }
+
+  if (options.outputSemanticKinds && result.semanticKinds !== null) {
+    // Write the original bytes verbatim to preserve byte-identical parity
+    // with the upstream file.
+    files.push({
+      path: options.outputSemanticKinds,
+      content: fs.readFileSync(
+        path.join(options.specDir, 'semantic-kinds.json')
+      ),
+    });
+  }
+
+  if (options.outputDecisionLog) {
+    files.push({
+      path: options.outputDecisionLog,
+      content: JSON.stringify(result.decisionLog, null, 2) + '\n',
+    });
+  }
+
+  if (options.outputReport) {
+    files.push({
+      path: options.outputReport,
+      content: JSON.stringify(result.report, null, 2) + '\n',
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Render the output files of `result` and of every profile result in it,
+ * each with its profile's effective options.
+ */
+export function renderAllOutputFiles(
+  result: BundleResult,
+  options: BundleOptions
+): OutputFile[] {
+  const files = renderOutputFiles(result, options);
+  for (const profile of options.profiles ?? []) {
+    const profileResult = result.profiles?.[profile.name];
+    if (!profileResult) continue;
+    files.push(
+      ...renderOutputFiles(profileResult, resolveProfileOptions(options, profile))
+    );
+  }
+  return files;
+}
+
+/** `options` with every output path removed, including each profile's. */
+export function withoutOutputPaths(options: BundleOptions): BundleOptions {
+  const strip = <T extends BundleOptions | BundleProfile>(o: T): T => ({
+    ...o,
+    outputSpec: undefined,
+    outputMetadata: undefined,
+    outputEndpointMap: undefined,
+    outputSemanticKinds: undefined,
+    outputDecisionLog: undefined,
+    outputReport: undefined,
+  });
+  return {
+    ...strip(options),
+    profiles: options.profiles?.map(strip),
+  };
+}
+
+/**
+ * Serialize the bundled spec as YAML. Keys keep the same insertion order as
+ * the JSON output, so both formats are equally byte-stable. Objects that the
+ * bundler shares between several locations are emitted in full at each site
+ * rather than as YAML anchors/aliases, and long strings are never folded, so
+ * the output does not depend on the `yaml` library's line-width heuristics.
+ */
+export function serializeSpecYaml(spec: Record<string, unknown>): string {
+  return stringifyYaml(spec, { aliasDuplicateObjects: false, lineWidth: 0 });
+}
+
+/** Write an output file, creating its parent directory. */
+export function writeOutputFile(file: OutputFile): void {
+  fs.mkdirSync(path.dirname(file.path), { recursive: true });
+  fs.writeFileSync(file.path, file.content);
+}
+
+/** True when the file exists on disk with exactly the rendered bytes. */
+export function isOutputFileUpToDate(file: OutputFile): boolean {
+  if (!fs.existsSync(file.path)) return false;
+  const expected =
+    typeof file.content === 'string'
+      ? Buffer.from(file.content, 'utf8')
+      : file.content;
+  return fs.readFileSync(file.path).equals(expected);
+}
@@ -0,0 +1,50 @@
+/**
+ * Loading of manual ref overrides (`BundleOptions.manualOverrides`) from a
+ * file, for CLI users who cannot wait for a release to add one.
+ */
+import fs from 'node:fs';
+
+import { parse as parseYaml } from 'yaml';
+
+/**
+ * Read a JSON or YAML map of path-local `$ref` → component schema name, e.g.
+ *
+ * ```yaml
+ * '#/paths/~1jobs~1search/post/requestBody/content/application~1json/schema/properties/filter': JobFilter
+ * ```
+ */
+export function readOverridesFile(file: string): Record<string, string> {
+  return validateManualOverrides(
+    parseYaml(fs.readFileSync(file, 'utf8')) as unknown,
+    file
+  );
+}
+
+/**
+ * Check that `overrides` is a map of path-local `$ref` → component schema
+ * name, whether it comes from `--overrides` or a config file's
+ * `manualOverrides`. Errors are prefixed with `source`.
+ */
+export function validateManualOverrides(
+  overrides: unknown,
+  source: string
+): Record<string, string> {
+  if (
+    !overrides ||
+    typeof overrides !== 'object' ||
+    Array.isArray(overrides) ||
+    !Object.values(overrides).every((v) => typeof v === 'string')
+  ) {
+    throw new Error(
+      `${source}: expected a map of path-local $ref to component schema name`
+    );
+  }
+  for (const ref of Object.keys(overrides)) {
+    if (!ref.startsWith('#/paths/')) {
+      throw new Error(
+        `${source}: override key "${ref}" is not a path-local $ref (expected "#/paths/...")`
+      );
+    }
+  }
+  return overrides as Record<string, string>;
+}
@@ -0,0 +1,94 @@
+/**
+ * Pipeline plugins: shared transformations of the bundled document (adding
+ * `x-` hints, rewording descriptions, ...) that run inside `bundle()` at
+ * named stages, so that metadata is derived from the transformed spec.
+ */
+import type { Logger } from './logger.js';
+import type { BundleOptions, BundleResult } from './types.js';
+
+/** Pipeline stages a plugin can hook into, in the order they run. */
+export const PLUGIN_STAGES = [
+  'afterBundle',
+  'afterAugment',
+  'afterNormalize',
+  'afterDedup',
+  'beforeMetadata',
+  'beforeWrite',
+] as const;
+
+export type PluginStage = (typeof PLUGIN_STAGES)[number];
+
+export interface PluginContext {
+  /**
+   * The bundled document. Mutate it in place; replacing `spec.components`
+   * or `spec.components.schemas` after `afterBundle` is not supported.
+   */
+  spec: Record<string, unknown>;
+
+  /** `spec.components.schemas` (created if the spec has none). */
+  schemas: Record<string, unknown>;
+
+  /** Effective options of the variant being bundled. */
+  options: BundleOptions;
+
+  logger: Logger;
+}
+
+export interface BeforeWriteContext extends PluginContext {
+  /**
+   * The finished result, including metadata and report. `spec` and
+   * `schemas` are `result.spec` and its schemas; changes made here are
+   * written but not reflected in the metadata.
+   */
+  result: BundleResult;
+}
+
+/**
+ * A set of hooks run by `bundle()`. Hooks may be async and run in plugin
+ * order; all of them are optional.
+ *
+ * - `afterBundle`: after SwaggerParser merged the YAML files (Step 1).
+ * - `afterAugment`: after missing component schemas were copied in (Step 2).
+ * - `afterNormalize`: after path-local $refs were normalized and inline
+ *   schemas promoted (Steps 3–3b). Runs once, before profiles fork.
+ * - `afterDedup`: after dereferencing and the fresh dedup pass (Step 4b).
+ * - `beforeMetadata`: after slicing, pruning, validation and canonical
+ *   ordering, right before the metadata IR is extracted (Step 6).
+ * - `beforeWrite`: before the output files are rendered (Step 7).
+ */
+export interface BundlerPlugin {
+  /** Shown in errors thrown from this plugin's hooks. */
+  name: string;
+  afterBundle?(context: PluginContext): void | Promise<void>;
+  afterAugment?(context: PluginContext): void | Promise<void>;
+  afterNormalize?(context: PluginContext): void | Promise<void>;
+  afterDedup?(context: PluginContext): void | Promise<void>;
+  beforeMetadata?(context: PluginContext): void | Promise<void>;
+  beforeWrite?(context: BeforeWriteContext): void | Promise<void>;
+}
+
+/**
+ * Run every plugin's `stage` hook in order. A throwing hook aborts the
+ * bundle with an error naming the plugin and stage.
+ */
+export async function runPluginHooks<S extends PluginStage>(
+  plugins: BundlerPlugin[],
+  stage: S,
+  context: S extends 'beforeWrite' ? BeforeWriteContext : PluginContext
+): Promise<void> {
+  for (const plugin of plugins) {
+    const hook = plugin[stage] as
+      | ((context: PluginContext) => void | Promise<void>)
+      | undefined;
+    if (!hook) continue;
+    context.logger.debug(`Plugin ${plugin.name}: ${stage}`);
+    try {
+      await hook.call(plugin, context);
+    } catch (err) {
+      throw new Error(
+        `Plugin "${plugin.name}" failed in ${stage}: ${err instanceof Error ? err.message : String(err)}`,
+        { cause: err }
+      );
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Validation and loading of bundle profiles (`BundleOptions.profiles`).
+ */
+import fs from 'node:fs';
+
+import { parse as parseYaml } from 'yaml';
+
+import type {
+  BundleOptions,
+  BundleProfile,
+  BundleProfileOption,
+} from './types.js';
+
+/** The value an option takes: a type, or the list of allowed strings. */
+type ProfileValueKind = 'string' | 'boolean' | 'string[]' | readonly string[];
+
+/**
+ * Every option a profile may override, and the value it takes. Typed so the
+ * list cannot drift from `BundleProfileOption`.
+ */
+const PROFILE_OPTIONS: Record<BundleProfileOption, ProfileValueKind> = {
+  outputSpec: 'string',
+  outputSpecFormat: ['json', 'yaml'],
+  outputMetadata: 'string',
+  outputEndpointMap: 'string',
+  outputSemanticKinds: 'string',
+  outputDecisionLog: 'string',
+  outputReport: 'string',
+  dereferencePathLocalRefs: 'boolean',
+  allowPathLocalLikeRefs: 'boolean',
+  allowPathLocalParameterRefs: 'boolean',
+  allowAmbiguousInlines: 'boolean',
+  allowDanglingRefs: 'boolean',
+  pruneUnusedSchemas: 'boolean',
+  keepSchemas: 'string[]',
+  includeTags: 'string[]',
+  excludeTags: 'string[]',
+  includeOperations: 'string[]',
+  validate: ['off', 'warn', 'error'],
+  canonicalOrder: 'boolean',
+};
+
+/**
+ * Throw if any profile lacks a unique non-empty `name`, sets an option that
+ * cannot vary per profile (e.g. `specDir`, `manualOverrides`, which take
+ * effect before the fork) or sets an option to a value of the wrong type.
+ */
+export function validateProfiles(profiles: BundleProfile[]): void {
+  const names = new Set<string>();
+  for (const [i, profile] of profiles.entries()) {
+    if (!profile || typeof profile !== 'object') {
+      throw new Error(`Profile #${i + 1} must be an object`);
+    }
+    const { name, ...overrides } = profile;
+    if (typeof name !== 'string' || name === '') {
+      throw new Error(`Profile #${i + 1} is missing a "name"`);
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicate profile name "${name}"`);
+    }
+    names.add(name);
+    const unsupported = Object.keys(overrides).filter(
+      (k) => !Object.hasOwn(PROFILE_OPTIONS, k)
+    );
+    if (unsupported.length > 0) {
+      throw new Error(
+        `Profile "${name}" sets unsupported option(s): ${unsupported.join(', ')}. ` +
+          `Profiles may set: ${Object.keys(PROFILE_OPTIONS).join(', ')}`
+      );
+    }
+    for (const [key, value] of Object.entries(overrides)) {
+      const kind = PROFILE_OPTIONS[key as BundleProfileOption];
+      if (value !== undefined && !hasKind(value, kind)) {
+        throw new Error(`Profile "${name}": "${key}" must be ${describeKind(kind)}`);
+      }
+    }
+  }
+}
+
+function hasKind(value: unknown, kind: ProfileValueKind): boolean {
+  if (typeof kind !== 'string') return kind.includes(value as string);
+  switch (kind) {
+    case 'string':
+    case 'boolean':
+      return typeof value === kind;
+    case 'string[]':
+      return Array.isArray(value) && value.every((v) => typeof v === 'string');
+  }
+}
+
+function describeKind(kind: ProfileValueKind): string {
+  if (typeof kind !== 'string') return `one of ${kind.join(', ')}`;
+  switch (kind) {
+    case 'string':
+      return 'a string';
+    case 'boolean':
+      return 'true or false';
+    case 'string[]':
+      return 'a list of strings';
+  }
+}
+
+/**
+ * Effective options for `profile`: `base` (minus its `profiles`) overridden
+ * by the profile. Output paths are never inherited — a profile writes only
+ * the outputs it names.
+ */
+export function resolveProfileOptions(
+  base: BundleOptions,
+  profile: BundleProfile
+): BundleOptions {
+  const { profiles: _profiles, ...inherited } = base;
+  const { name: _name, ...overrides } = profile;
+  return {
+    ...inherited,
+    outputSpec: undefined,
+    outputMetadata: undefined,
+    outputEndpointMap: undefined,
+    outputSemanticKinds: undefined,
+    outputDecisionLog: undefined,
+    outputReport: undefined,
+    ...overrides,
+  };
+}
+
+/**
+ * Read profiles from a JSON or YAML file containing either a list of
+ * profiles or an object with a `profiles` list. Output paths are used as
+ * written (i.e. relative to the working directory, like CLI flags).
+ */
+export function readProfilesFile(file: string): BundleProfile[] {
+  const doc = parseYaml(fs.readFileSync(file, 'utf8')) as unknown;
+  const profiles =
+    doc && typeof doc === 'object' && !Array.isArray(doc)
+      ? (doc as { profiles?: unknown }).profiles
+      : doc;
+  if (!Array.isArray(profiles)) {
+    throw new Error(
+      `${file}: expected a list of profiles or an object with a "profiles" list`
+    );
+  }
+  validateProfiles(profiles as BundleProfile[]);
+  return profiles as BundleProfile[];
+}
@@ -0,0 +1,69 @@
+/**
+ * Bundle provenance (`BundleOptions.provenance`): where a bundle came from
+ * and the options that shaped it, embedded in the bundled spec and the
+ * metadata IR so that generated SDKs can be traced back to their source.
+ */
+import type {
+  BundleOptions,
+  BundleProvenance,
+  BundleResult,
+  SpecMetadata,
+} from './types.js';
+import { BUNDLER_VERSION } from './version.js';
+
+/** Key of the provenance block in the bundled spec's `info` object. */
+export const PROVENANCE_EXTENSION = 'x-camunda-bundle';
+
+/**
+ * Build the provenance record for one variant. Defaults are applied so the
+ * record states the effective options, not just the ones that were passed.
+ */
+export function buildProvenance(
+  options: BundleOptions,
+  specHash: string,
+  profile?: string
+): BundleProvenance {
+  const provenance: BundleProvenance = {
+    ref: options.ref,
+    commit: options.commit,
+    repoUrl: options.repoUrl,
+    specHash,
+    bundlerVersion: BUNDLER_VERSION,
+    profile,
+    options: {
+      entryFile: options.entryFile ?? 'rest-api.yaml',
+      dereferencePathLocalRefs: options.dereferencePathLocalRefs ?? false,
+      allowPathLocalLikeRefs: options.allowPathLocalLikeRefs ?? false,
+      allowPathLocalParameterRefs: options.allowPathLocalParameterRefs ?? false,
+      allowAmbiguousInlines: options.allowAmbiguousInlines ?? false,
+      allowDanglingRefs: options.allowDanglingRefs ?? false,
+      pruneUnusedSchemas: options.pruneUnusedSchemas ?? false,
+      canonicalOrder: options.canonicalOrder ?? false,
+      validate: options.validate ?? 'off',
+      keepSchemas: options.keepSchemas,
+      includeTags: options.includeTags,
+      excludeTags: options.excludeTags,
+      includeOperations: options.includeOperations,
+      manualOverrides: options.manualOverrides,
+    },
+  };
+  // Drop unset members so the JSON output matches the optional fields.
+  return JSON.parse(JSON.stringify(provenance)) as BundleProvenance;
+}
+
+/**
+ * Embed `provenance` as `info['x-camunda-bundle']` and as
+ * `metadata.provenance` (placed right after `specHash`).
+ */
+export function applyProvenance(
+  result: Pick<BundleResult, 'spec' | 'metadata'>,
+  provenance: BundleProvenance
+): void {
+  const info = (result.spec['info'] ??= {}) as Record<string, unknown>;
+  info[PROVENANCE_EXTENSION] = provenance;
+
+  const entries = Object.entries(result.metadata).filter(([key]) => key !== 'provenance');
+  const at = entries.findIndex(([key]) => key === 'specHash') + 1;
+  entries.splice(at, 0, ['provenance', provenance]);
+  result.metadata = Object.fromEntries(entries) as SpecMetadata;
+}
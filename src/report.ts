@@ -0,0 +1,47 @@
+/**
+ * Per-run bookkeeping for the machine-readable bundle report
+ * (`BundleResult.report`, `outputReport`): step timings and warnings.
+ */
+import { performance } from 'node:perf_hooks';
+
+import type { Logger } from './logger.js';
+
+export interface RunRecorder {
+  /** Milliseconds per recorded step, in the order recorded. */
+  readonly timings: Record<string, number>;
+
+  /** Warnings emitted so far, without the log prefix. */
+  readonly warnings: string[];
+
+  /** Restart the clock without recording a step, e.g. before the first one. */
+  start(): void;
+
+  /** Record (and log at debug level) the milliseconds since the previous `step()` / `start()` as `name`. */
+  step(name: string): void;
+
+  /** Log `message` as a warning and keep it for the report. */
+  warn(message: string): void;
+}
+
+export function createRunRecorder(logger: Logger): RunRecorder {
+  const timings: Record<string, number> = {};
+  const warnings: string[] = [];
+  let last = performance.now();
+  return {
+    timings,
+    warnings,
+    start() {
+      last = performance.now();
+    },
+    step(name) {
+      const now = performance.now();
+      timings[name] = Math.round(now - last);
+      last = now;
+      logger.debug(`Step ${name}: ${timings[name]} ms`);
+    },
+    warn(message) {
+      warnings.push(message);
+      logger.warn(message);
+    },
+  };
+}
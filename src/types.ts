@@ -1,6 +1,9 @@
 /**
  * Type definitions for the Camunda Schema Bundler.
  */
+import type { FetchProgress } from './fetch.js';
+import type { Logger } from './logger.js';
+import type { BundlerPlugin } from './plugins.js';
 
 // ── Bundle options ───────────────────────────────────────────────────────────
 
@@ -11,6 +14,27 @@ export interface FetchAndBundleOptions {
   /** Git repository URL. Default: https://github.com/camunda/camunda.git */
   repoUrl?: string;
 
+  /** Local clone of the upstream repo to export the spec from instead of cloning. */
+  repoPath?: string;
+
+  /** Source archive (.tar.gz/.tgz/.tar/.zip) to extract the spec from instead of cloning. */
+  archivePath?: string;
+
+  /** Lock file recording the fetched commit and tree hash, e.g. "spec.lock.json". */
+  lockFile?: string;
+
+  /** Fetch the commit pinned in `lockFile` and fail if the tree hash differs. */
+  locked?: boolean;
+
+  /** Time limit for each fetch command, in milliseconds. Default: 120000. */
+  fetchTimeoutMs?: number;
+
+  /** Retries of a failed or timed-out clone, with exponential backoff. Default: 2. */
+  fetchRetries?: number;
+
+  /** Called with each line of git progress output while fetching. */
+  onFetchProgress?: (progress: FetchProgress) => void;
+
   /** Upstream spec directory relative to repo root. */
   specDir?: string;
 
@@ -20,9 +44,12 @@ export interface FetchAndBundleOptions {
   /** Entry YAML file name (default: "rest-api.yaml"). */
   entryFile?: string;
 
-  /** Output path for the bundled JSON spec. */
+  /** Output path for the bundled spec. */
   outputSpec?: string;
 
+  /** Serialization format of `outputSpec`. Default: "json". */
+  outputSpecFormat?: SpecOutputFormat;
+
   /** Output path for the metadata IR JSON. */
   outputMetadata?: string;
 
@@ -44,7 +71,19 @@ export interface FetchAndBundleOptions {
    */
   outputSemanticKinds?: string;
 
-  /** Manual ref overrides. */
+  /** Output path for the normalization decision log JSON. */
+  outputDecisionLog?: string;
+
+  /** Output path for the machine-readable bundle report JSON. */
+  outputReport?: string;
+
+  /**
+   * Manual ref overrides: path-local `$ref` (as it appears in the bundled
+   * document, e.g. `#/paths/~1jobs~1search/post/...`) → component schema
+   * name. Applied in Step 3 before signature matching, on top of the
+   * built-in defaults. Bundling fails if a target schema does not exist;
+   * overrides that never match a `$ref` are reported as a warning.
+   */
   manualOverrides?: Record<string, string>;
 
   /** If true, inline remaining path-local $refs. */
@@ -59,8 +98,50 @@ export interface FetchAndBundleOptions {
   /** If true, allow ambiguous inline schemas that match multiple component schemas. */
   allowAmbiguousInlines?: boolean;
 
+  /** If true, allow internal $refs whose target does not exist. */
+  allowDanglingRefs?: boolean;
+
+  /** If true, drop component schemas no operation reaches. */
+  pruneUnusedSchemas?: boolean;
+
+  /** Component schemas to keep when pruning, even if unreachable. */
+  keepSchemas?: string[];
+
+  /** Keep only operations carrying one of these tags. */
+  includeTags?: string[];
+
+  /** Drop operations carrying any of these tags. */
+  excludeTags?: string[];
+
+  /** Keep only operations with these operationIds. */
+  includeOperations?: string[];
+
+  /** Validate the bundled document against the OpenAPI 3 schema. Default: "off". */
+  validate?: ValidationMode;
+
+  /** If true, sort paths, components and schema properties by key. */
+  canonicalOrder?: boolean;
+
+  /** If true, embed provenance in `info['x-camunda-bundle']` and the metadata. */
+  provenance?: boolean;
+
   /** If true and spec already exists locally, skip fetching. */
   skipFetchIfExists?: boolean;
+
+  /** Directory for the content-addressed bundle cache. Default: no caching. */
+  cacheDir?: string;
+
+  /** Additional output variants finished from the same normalized spec. */
+  profiles?: BundleProfile[];
+
+  /** Where progress and warnings are logged. Default: the console. */
+  logger?: Logger;
+
+  /** Hooks run at named pipeline stages. Disables the bundle cache. */
+  plugins?: BundlerPlugin[];
+
+  /** Extra metadata IR sections. Disables the bundle cache. */
+  metadataExtractors?: MetadataExtractor[];
 }
 
 export interface BundleOptions {
@@ -70,9 +151,16 @@ export interface BundleOptions {
   /** Entry YAML file name (default: "rest-api.yaml"). */
   entryFile?: string;
 
-  /** Output path for the bundled JSON spec. */
+  /** Output path for the bundled spec. */
   outputSpec?: string;
 
+  /**
+   * Serialization format of `outputSpec`: `"json"` (2-space indented) or
+   * `"yaml"`. Both keep the same key order and are byte-stable across runs.
+   * Default: "json".
+   */
+  outputSpecFormat?: SpecOutputFormat;
+
   /** Output path for the metadata IR JSON. */
   outputMetadata?: string;
 
@@ -94,6 +182,45 @@ export interface BundleOptions {
    */
   outputSemanticKinds?: string;
 
+  /**
+   * Output path for the decision log JSON: one entry per location that
+   * normalization (Step 3) or fresh dedup (Step 4b) rewrote to a component
+   * `$ref`, with the strategy that chose the component and the candidates it
+   * rejected. See `BundleResult.decisionLog`.
+   */
+  outputDecisionLog?: string;
+
+  /**
+   * Output path for the bundle report JSON (`BundleResult.report`): stats,
+   * step timings, warnings, ambiguous inlines, the spec's ref and directory
+   * and the bundler version, for CI dashboards.
+   */
+  outputReport?: string;
+
+  /**
+   * Git ref the spec in `specDir` was fetched from. Informational only: it is
+   * recorded in the bundle report (and provenance) and does not affect the
+   * result. `fetchAndBundle()` and the CLI set it when they fetch.
+   */
+  ref?: string;
+
+  /**
+   * Commit SHA and repository URL the spec was fetched from. Informational
+   * only, like `ref`: recorded in the provenance block. `fetchAndBundle()`
+   * and the CLI set them from the fetch's lock (`FetchResult.lock`).
+   */
+  commit?: string;
+  repoUrl?: string;
+
+  /**
+   * If true, embed where the bundle came from — ref, commit, repo URL,
+   * `specHash`, bundler version and the effective result-affecting options —
+   * as `info['x-camunda-bundle']` in the bundled spec and as
+   * `metadata.provenance`. Contains no timestamp, so unchanged input still
+   * produces byte-identical output. Default: false.
+   */
+  provenance?: boolean;
+
   /**
    * Manual ref overrides: map of path-local $ref → component schema name.
    * Used for known tricky paths that can't be resolved by signature matching.
@@ -124,8 +251,139 @@ export interface BundleOptions {
    * schemas without failing. Default: false (fail-fast).
    */
   allowAmbiguousInlines?: boolean;
+
+  /**
+   * If true, allow internal `$ref`s whose target does not exist in the
+   * bundle without failing. Default: false (fail-fast).
+   */
+  allowDanglingRefs?: boolean;
+
+  /**
+   * If true, drop component schemas that are not reachable through `$ref`s
+   * from `paths` (or from other component buckets), after dedup and before
+   * validation. Schemas carrying `x-semantic-type` / `x-semantic-key` are
+   * always kept, as is everything listed in `keepSchemas` — together with
+   * the schemas they reference. Default: false.
+   */
+  pruneUnusedSchemas?: boolean;
+
+  /** Component schema names to keep when `pruneUnusedSchemas` is set. */
+  keepSchemas?: string[];
+
+  /**
+   * Slice the bundle down to operations carrying at least one of these tags
+   * (or listed in `includeOperations`). Slicing happens after normalization;
+   * path items left empty and unused top-level tags are dropped, component
+   * schemas are pruned to what the remaining operations reach (semantic-key
+   * schemas are not kept implicitly; use `keepSchemas`), and the metadata IR
+   * and endpoint map describe only the slice.
+   */
+  includeTags?: string[];
+
+  /** Drop operations carrying any of these tags. Applied after the includes. See `includeTags`. */
+  excludeTags?: string[];
+
+  /** Keep operations with these operationIds, in addition to those matched by `includeTags`. */
+  includeOperations?: string[];
+
+  /**
+   * Validate the bundled document against the OpenAPI 3 schema
+   * (`SwaggerParser.validate()`) after the fail-fast checks. `"warn"` logs
+   * every issue with its JSON pointer; `"error"` throws instead.
+   * Default: "off".
+   */
+  validate?: ValidationMode;
+
+  /**
+   * If true, emit object keys in a canonical order: `paths`, every
+   * `components.*` bucket and every schema `properties` map are sorted by
+   * key, while top-level fields keep the OpenAPI-conventional order
+   * (`openapi`, `info`, `servers`, `paths`, `components`, …). Two upstream
+   * trees that only differ in how definitions are spread across files then
+   * produce byte-identical bundles. Default: false (upstream order).
+   */
+  canonicalOrder?: boolean;
+
+  /**
+   * Directory for the content-addressed bundle cache. When set, the result
+   * is cached under a key derived from the spec tree hash, the options that
+   * affect the result (output paths excluded) and the bundler version; a
+   * later call with the same key skips bundling and only writes outputs.
+   * Default: no caching.
+   */
+  cacheDir?: string;
+
+  /**
+   * Additional variants of the bundle, e.g. a dereferenced bundle for C#
+   * next to the plain one for TypeScript. The spec is parsed, augmented and
+   * normalized once (Steps 1–3b); each profile is then finished separately
+   * with the options above overridden by its own. Output paths are not
+   * inherited: a profile writes only the outputs it sets. Results are
+   * returned in `BundleResult.profiles`.
+   */
+  profiles?: BundleProfile[];
+
+  /**
+   * Receives all progress (`info`), diagnostic (`debug`, e.g. step timings)
+   * and warning output. Pass `silentLogger` to embed the bundler without
+   * console noise. Default: `defaultLogger` (console, `info` and above).
+   * Errors are thrown, never logged.
+   */
+  logger?: Logger;
+
+  /**
+   * Transformations run at named stages of the pipeline (after bundling,
+   * augmentation, normalization and dedup, before metadata extraction and
+   * before writing), each receiving the mutable document; see
+   * `BundlerPlugin`. Plugins run for every profile. Since their effect
+   * cannot be hashed, setting any plugin bypasses `cacheDir`.
+   */
+  plugins?: BundlerPlugin[];
+
+  /**
+   * Additional metadata IR sections, e.g. for prototyping support for a new
+   * `x-` extension. Each extractor's entries appear in
+   * `SpecMetadata.extensions` under its name, counted in `integrity.extensions`.
+   * Like plugins, setting any extractor bypasses `cacheDir`.
+   */
+  metadataExtractors?: MetadataExtractor[];
 }
 
+/** `BundleOptions` that only affect Steps 3d onwards and may differ per profile. */
+export type BundleProfileOption =
+  | 'outputSpec'
+  | 'outputSpecFormat'
+  | 'outputMetadata'
+  | 'outputEndpointMap'
+  | 'outputSemanticKinds'
+  | 'outputDecisionLog'
+  | 'outputReport'
+  | 'dereferencePathLocalRefs'
+  | 'allowPathLocalLikeRefs'
+  | 'allowPathLocalParameterRefs'
+  | 'allowAmbiguousInlines'
+  | 'allowDanglingRefs'
+  | 'pruneUnusedSchemas'
+  | 'keepSchemas'
+  | 'includeTags'
+  | 'excludeTags'
+  | 'includeOperations'
+  | 'validate'
+  | 'canonicalOrder';
+
+/**
+ * One output variant of a multi-profile bundle. Options not set here are
+ * inherited from the enclosing `BundleOptions`, except output paths.
+ */
+export interface BundleProfile extends Pick<BundleOptions, BundleProfileOption> {
+  /** Unique name; the key of this profile's result in `BundleResult.profiles`. */
+  name: string;
+}
+
+export type SpecOutputFormat = 'json' | 'yaml';
+
+export type ValidationMode = 'off' | 'warn' | 'error';
+
 export interface BundleResult {
   /** The bundled OpenAPI spec as a plain object. */
   spec: Record<string, unknown>;
@@ -149,6 +407,15 @@ export interface BundleResult {
 
   /** Stats about the bundling process. */
   stats: BundleStats;
+
+  /** Every component-ref rewrite made during normalization and dedup, in the order made. */
+  decisionLog: DecisionLogEntry[];
+
+  /** Machine-readable summary of this run. */
+  report: BundleReport;
+
+  /** Per-profile results, keyed by profile name. Only set when `profiles` were given. */
+  profiles?: Record<string, BundleResult>;
 }
 
 export interface BundleStats {
@@ -162,6 +429,8 @@ export interface BundleStats {
   pathLocalLikeRefCount: number;
   /** Path-local `$refs` inlined inside `parameters` arrays (always applied). */
   inlinedPathLocalParameterCount: number;
+  /** Internal `$ref`s whose target does not exist in the final bundle. */
+  danglingRefCount: number;
 
   /**
    * `true` when the caller requested `outputEndpointMap` (or `--output-endpoint-map`).
@@ -170,6 +439,157 @@ export interface BundleStats {
    * in `spec-metadata.json`. See https://github.com/camunda/camunda-schema-bundler/issues/21
    */
   endpointMapDeprecated?: boolean;
+
+  /**
+   * Set when `cacheDir` is used: `true` if the result was served from the
+   * bundle cache, `false` if it was bundled fresh (and then cached).
+   */
+  cacheHit?: boolean;
+
+  /** Component schemas removed by `pruneUnusedSchemas` or slicing (sorted). Only set when pruning. */
+  prunedSchemas?: string[];
+
+  /** Operations removed by `includeTags` / `excludeTags` / `includeOperations`. Only set when slicing. */
+  excludedOperationCount?: number;
+
+  /** Number of OpenAPI validation issues found. Only set when `validate` is not "off". */
+  validationIssueCount?: number;
+
+  /** Inline schemas left ambiguous. Only set when there are any (requires `allowAmbiguousInlines`). */
+  ambiguousInlines?: AmbiguousInline[];
+}
+
+/**
+ * Summary of one bundle run, written by `outputReport`. Unlike the rest of
+ * the result it describes the run, not the spec: on a cache hit, `timings`
+ * and `warnings` cover only the cache lookup.
+ */
+export interface BundleReport {
+  /** Version of camunda-schema-bundler that produced the report. */
+  bundlerVersion: string;
+
+  /** Git ref the spec was fetched from, when known (`BundleOptions.ref`). */
+  ref?: string;
+
+  /** Spec directory that was bundled, as given in the options. */
+  specDir: string;
+
+  /** Same as `metadata.specHash`. */
+  specHash: string;
+
+  /** Profile name, for a profile's report. */
+  profile?: string;
+
+  stats: BundleStats;
+
+  /**
+   * Wall-clock milliseconds per pipeline step that ran, in execution order.
+   * With profiles, the shared steps (`hash`, `parse` … `promote`) appear in
+   * every profile's report.
+   */
+  timings: Record<string, number>;
+
+  /**
+   * Warnings emitted during the run, without the log prefix. A cache hit
+   * carries the warnings of the run that produced the cached result.
+   */
+  warnings: string[];
+}
+
+/**
+ * Where a bundle came from and how it was produced (`BundleOptions.provenance`).
+ * Embedded as `info['x-camunda-bundle']` and `SpecMetadata.provenance`.
+ */
+export interface BundleProvenance {
+  /** Git ref the spec was fetched from, when known. */
+  ref?: string;
+
+  /** Commit SHA the ref resolved to, when known. */
+  commit?: string;
+
+  /** Upstream repository URL, when known. */
+  repoUrl?: string;
+
+  /** Hash of the upstream spec directory tree (`SpecMetadata.specHash`). */
+  specHash: string;
+
+  /** Version of camunda-schema-bundler that produced the bundle. */
+  bundlerVersion: string;
+
+  /** Profile name, for a profile's output. */
+  profile?: string;
+
+  options: ProvenanceOptions;
+}
+
+/** The effective bundle options that shape the output, with defaults applied. */
+export interface ProvenanceOptions {
+  entryFile: string;
+  dereferencePathLocalRefs: boolean;
+  allowPathLocalLikeRefs: boolean;
+  allowPathLocalParameterRefs: boolean;
+  allowAmbiguousInlines: boolean;
+  allowDanglingRefs: boolean;
+  pruneUnusedSchemas: boolean;
+  canonicalOrder: boolean;
+  validate: ValidationMode;
+  keepSchemas?: string[];
+  includeTags?: string[];
+  excludeTags?: string[];
+  includeOperations?: string[];
+
+  /** User-supplied manual overrides (the built-in ones are implied by the version). */
+  manualOverrides?: Record<string, string>;
+}
+
+export interface AmbiguousInline {
+  /** Location in the dotted form used by ambiguity errors, e.g. `#/paths./jobs.get.responses.200`. */
+  path: string;
+
+  /** Component schemas the inline matches equally well. */
+  candidates: string[];
+}
+
+/**
+ * How a location was matched to a component schema:
+ *
+ * - `component-ref`: a path-local `$ref` whose target is itself a component `$ref`
+ * - `like-filter`: a path-local `$like` ref rewritten to `LikeFilter`
+ * - `manual-override`: a `manualOverrides` entry (built-in or user-supplied)
+ * - `exact-signature`: the only component with the same canonical JSON
+ * - `structural-signature`: the only component equal ignoring `description` / `title`
+ * - `context`: `disambiguateByContext()` — a component referencing the candidate
+ *   from the same position in a matching container
+ * - `original-ref`: the `$ref` name the upstream YAML used at this location
+ * - `nested-original-ref`: the `$ref` inside the component the enclosing
+ *   schema originally referenced
+ * - `semantic-type`: the `x-semantic-type` extension
+ */
+export type DecisionStrategy =
+  | 'component-ref'
+  | 'like-filter'
+  | 'manual-override'
+  | 'exact-signature'
+  | 'structural-signature'
+  | 'context'
+  | 'original-ref'
+  | 'nested-original-ref'
+  | 'semantic-type';
+
+export interface DecisionLogEntry {
+  /** Pipeline step that made the rewrite. */
+  step: 'normalize' | 'dedup';
+
+  /** JSON pointer (URI fragment form) of the rewritten location. */
+  path: string;
+
+  /** Component schema name the location now references. */
+  component: string;
+
+  strategy: DecisionStrategy;
+
+  /** Other components with the same signature that were not chosen (empty when the match was unique). */
+  rejectedCandidates: string[];
 }
 
 // ── Metadata IR ──────────────────────────────────────────────────────────────
@@ -180,6 +600,9 @@ export interface SpecMetadata {
   /** SHA-256 hash of the upstream spec directory tree for drift detection. */
   specHash: string;
 
+  /** Where the bundle came from; present only with `BundleOptions.provenance`. */
+  provenance?: BundleProvenance;
+
   /** Schemas marked with x-semantic-type or x-semantic-key. */
   semanticKeys: SemanticKeyEntry[];
 
@@ -201,6 +624,12 @@ export interface SpecMetadata {
   /** Schemas annotated with x-semantic-provider (result schemas with identity fields). */
   semanticProviders: SemanticProviderEntry[];
 
+  /**
+   * Sections produced by custom `metadataExtractors`, keyed by extractor
+   * name. Present only when at least one extractor is set.
+   */
+  extensions?: Record<string, unknown[]>;
+
   /** Integrity counters for validation. */
   integrity: {
     totalSemanticKeys: number;
@@ -209,9 +638,30 @@ export interface SpecMetadata {
     totalEventuallyConsistent: number;
     totalDeprecatedEnumSchemas: number;
     totalSemanticProviders: number;
+    /** Entry count per custom extractor, keyed by extractor name. */
+    extensions?: Record<string, number>;
   };
 }
 
+/**
+ * A custom metadata IR section. `extract` runs on the finished spec, after
+ * the built-in sections; its entries are stored in `SpecMetadata.extensions[name]`
+ * in the order returned and counted in `integrity.extensions[name]`.
+ */
+export interface MetadataExtractor<T = unknown> {
+  /** camelCase section name; must be unique among the extractors. */
+  name: string;
+  extract(context: MetadataExtractorContext): T[];
+}
+
+export interface MetadataExtractorContext {
+  /** The bundled spec. Treat it as read-only. */
+  spec: Record<string, unknown>;
+
+  /** `spec.components.schemas`. */
+  schemas: Record<string, unknown>;
+}
+
 export interface SemanticKeyEntry {
   name: string;
   semanticType: string;
@@ -0,0 +1,80 @@
+/**
+ * Structural validation of the bundled document against the OpenAPI 3
+ * schema, via `SwaggerParser.validate()`, and of the metadata IR against
+ * `SPEC_METADATA_SCHEMA`.
+ */
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { Ajv, type ValidateFunction } from 'ajv';
+
+import { SPEC_METADATA_SCHEMA } from './metadata-schema.js';
+import type { SpecMetadata } from './types.js';
+
+export interface SpecValidationIssue {
+  /** JSON pointer (URI fragment form) to the offending node, e.g. `#/paths/~1jobs/get`. */
+  pointer: string;
+
+  /** Human-readable description of the problem. */
+  message: string;
+}
+
+type OpenApiDocument = Awaited<ReturnType<typeof SwaggerParser.bundle>>;
+
+/** Shape of the schema-validation errors SwaggerParser attaches as `details`. */
+interface SchemaErrorDetail {
+  instancePath?: string;
+  message?: string;
+}
+
+/**
+ * Validate a bundled spec and return every problem found (empty when valid).
+ *
+ * The document is cloned first: `SwaggerParser.validate()` dereferences its
+ * input in place. Schema violations are reported individually with the
+ * pointer of the offending node. Failures that abort validation as a whole
+ * (e.g. a `$ref` that does not resolve) are reported as a single issue
+ * against the document root.
+ */
+export async function validateBundledSpec(
+  spec: Record<string, unknown>
+): Promise<SpecValidationIssue[]> {
+  try {
+    await SwaggerParser.validate(
+      structuredClone(spec) as unknown as OpenApiDocument
+    );
+    return [];
+  } catch (err) {
+    const details = (err as { details?: unknown }).details;
+    if (Array.isArray(details) && details.length > 0) {
+      return (details as SchemaErrorDetail[]).map((d) => ({
+        pointer: `#${d.instancePath ?? ''}`,
+        message: d.message ?? 'invalid',
+      }));
+    }
+    return [
+      { pointer: '#', message: err instanceof Error ? err.message : String(err) },
+    ];
+  }
+}
+
+let metadataValidator: ValidateFunction | undefined;
+
+/**
+ * Validate metadata IR against the published `spec-metadata.json` schema and
+ * return every problem found (empty when valid). Custom extractor sections
+ * are accepted as-is; only their integrity counters must be numbers.
+ */
+export function validateSpecMetadata(metadata: SpecMetadata): SpecValidationIssue[] {
+  metadataValidator ??= new Ajv({ allErrors: true }).compile(SPEC_METADATA_SCHEMA);
+  if (metadataValidator(metadata)) return [];
+  return (metadataValidator.errors ?? []).map((e) => ({
+    pointer: `#${e.instancePath}`,
+    message:
+      (e.message ?? 'invalid') +
+      (e.params['additionalProperty'] ? ` "${e.params['additionalProperty']}"` : ''),
+  }));
+}
+
+/** Render issues one per line as `  <pointer>: <message>`. */
+export function formatValidationIssues(issues: SpecValidationIssue[]): string {
+  return issues.map((i) => `  ${i.pointer}: ${i.message}`).join('\n');
+}
@@ -0,0 +1,11 @@
+/**
+ * The bundler's own package version, read from package.json at runtime.
+ */
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+/** Version of camunda-schema-bundler (e.g. "2.4.5"). */
+export const BUNDLER_VERSION: string = (
+  require('../package.json') as { version: string }
+).version;
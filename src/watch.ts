@@ -0,0 +1,170 @@
+/**
+ * Watch mode: re-bundle whenever the upstream YAML under `specDir` changes.
+ *
+ * Intended for co-developing spec changes against a local checkout. Changes
+ * are debounced, cycles never overlap, and output files are only rewritten
+ * when their content actually changed, so downstream watchers (generators,
+ * dev servers) are not retriggered by no-op edits.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { bundle } from './bundle.js';
+import { defaultLogger } from './logger.js';
+import {
+  isOutputFileUpToDate,
+  renderAllOutputFiles,
+  withoutOutputPaths,
+  writeOutputFile,
+} from './outputs.js';
+import type { BundleOptions, BundleResult, BundleStats } from './types.js';
+
+export interface WatchBundleOptions extends BundleOptions {
+  /** Quiet period after the last file change before re-bundling. Default: 200 ms. */
+  debounceMs?: number;
+
+  /** Called after every successful bundle cycle (including the initial one). */
+  onBundle?: (event: WatchBundleEvent) => void;
+
+  /**
+   * Called when a cycle fails (e.g. a YAML syntax error mid-edit). Watching
+   * continues; the next change triggers a new cycle. Default: log it as an
+   * error via `logger`.
+   */
+  onError?: (error: unknown) => void;
+}
+
+export interface WatchBundleEvent {
+  result: BundleResult;
+
+  /** Numeric stats that differ from the previous successful cycle. Empty on the first cycle. */
+  statsDelta: StatsDeltaEntry[];
+
+  /** Output paths rewritten in this cycle (unchanged outputs are not touched). */
+  written: string[];
+}
+
+export interface StatsDeltaEntry {
+  stat: keyof BundleStats;
+  before: number;
+  after: number;
+}
+
+export interface BundleWatcher {
+  /** Resolves once the initial bundle cycle has finished (successfully or not). */
+  ready: Promise<void>;
+
+  /** Stop watching. A cycle already in progress runs to completion. */
+  close(): void;
+}
+
+/**
+ * Bundle `options.specDir` once, then again after every change to it.
+ */
+export function watchBundle(options: WatchBundleOptions): BundleWatcher {
+  const { debounceMs = 200, onBundle, onError, ...bundleOptions } = options;
+  const logger = bundleOptions.logger ?? defaultLogger;
+  const reportError =
+    onError ??
+    ((err: unknown) =>
+      logger.error(
+        `Re-bundle failed: ${err instanceof Error ? err.message : String(err)}`
+      ));
+
+  let previousStats: BundleStats | undefined;
+  let running = false;
+  let pending = false;
+  let closed = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const cycle = async (): Promise<void> => {
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = true;
+    try {
+      // Bundle in memory; outputs are written below only when they differ.
+      const result = await bundle(withoutOutputPaths(bundleOptions));
+
+      const written: string[] = [];
+      for (const file of renderAllOutputFiles(result, bundleOptions)) {
+        if (isOutputFileUpToDate(file)) continue;
+        writeOutputFile(file);
+        written.push(file.path);
+      }
+
+      const statsDelta = previousStats ? diffStats(previousStats, result.stats) : [];
+      previousStats = result.stats;
+      onBundle?.({ result, statsDelta, written });
+    } catch (err) {
+      reportError(err);
+    } finally {
+      running = false;
+      if (pending && !closed) {
+        pending = false;
+        schedule();
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (closed) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void cycle(), debounceMs);
+  };
+
+  const watchers = watchTree(bundleOptions.specDir, schedule);
+  const ready = cycle();
+
+  return {
+    ready,
+    close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      for (const w of watchers) w.close();
+    },
+  };
+}
+
+/**
+ * Render a stats delta as `schemaCount 510 → 511, freshDedupCount 298 → 297`.
+ */
+export function formatStatsDelta(delta: StatsDeltaEntry[]): string {
+  if (delta.length === 0) return 'no stats changes';
+  return delta.map((d) => `${d.stat} ${d.before} → ${d.after}`).join(', ');
+}
+
+function diffStats(before: BundleStats, after: BundleStats): StatsDeltaEntry[] {
+  const delta: StatsDeltaEntry[] = [];
+  for (const key of Object.keys(after) as (keyof BundleStats)[]) {
+    const b = before[key];
+    const a = after[key];
+    if (typeof a === 'number' && typeof b === 'number' && a !== b) {
+      delta.push({ stat: key, before: b, after: a });
+    }
+  }
+  return delta;
+}
+
+/**
+ * Watch a directory tree. Uses a single recursive watcher where the platform
+ * supports it (Node < 20 on Linux does not), falling back to one watcher per
+ * directory that exists at startup.
+ */
+function watchTree(root: string, onChange: () => void): fs.FSWatcher[] {
+  try {
+    return [fs.watch(root, { recursive: true }, onChange)];
+  } catch {
+    const dirs = [root];
+    const watchers: fs.FSWatcher[] = [];
+    while (dirs.length) {
+      const dir = dirs.pop()!;
+      watchers.push(fs.watch(dir, onChange));
+      for (const e of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (e.isDirectory()) dirs.push(path.join(dir, e.name));
+      }
+    }
+    return watchers;
+  }
+}
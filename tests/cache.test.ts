@@ -0,0 +1,164 @@
+/**
+ * Tests for the content-addressed bundle cache (`cacheDir`).
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { bundleCacheKey, readCachedBundle, writeCachedBundle } from '../src/cache.js';
+
+function writeSpec(dir: string, paths: string[]): void {
+  const entryYaml = `
+openapi: '3.0.3'
+info:
+  title: Camunda REST API
+  version: '8.10'
+paths:
+${paths
+  .map(
+    (p) => `  ${p}:
+    get:
+      operationId: get${p.replace(/\W/g, '')}
+      responses:
+        '200':
+          description: OK
+`
+  )
+  .join('')}`.trimStart();
+  fs.writeFileSync(path.join(dir, 'rest-api.yaml'), entryYaml, 'utf8');
+}
+
+describe('bundle cache', () => {
+  let specDir: string;
+  let cacheDir: string;
+  let outDir: string;
+
+  beforeEach(() => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-cache-'));
+    specDir = path.join(root, 'spec');
+    cacheDir = path.join(root, 'cache');
+    outDir = path.join(root, 'out');
+    fs.mkdirSync(specDir);
+    writeSpec(specDir, ['/things']);
+  });
+
+  it('does not report cache status without cacheDir', async () => {
+    const result = await bundle({ specDir });
+    expect(result.stats.cacheHit).toBeUndefined();
+    expect(fs.existsSync(cacheDir)).toBe(false);
+  });
+
+  it('serves an unchanged spec from the cache and still writes outputs', async () => {
+    const first = await bundle({ specDir, cacheDir });
+    expect(first.stats.cacheHit).toBe(false);
+    expect(fs.readdirSync(cacheDir)).toHaveLength(1);
+
+    const outputSpec = path.join(outDir, 'rest-api.bundle.json');
+    const second = await bundle({ specDir, cacheDir, outputSpec });
+    expect(second.stats.cacheHit).toBe(true);
+    expect(second.spec).toEqual(first.spec);
+    expect(second.metadata).toEqual(first.metadata);
+    expect(JSON.parse(fs.readFileSync(outputSpec, 'utf8'))).toEqual(first.spec);
+  });
+
+  it('re-emits the warnings of the run that produced the entry', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      fs.appendFileSync(path.join(specDir, 'rest-api.yaml'), '      bogus: 1\n');
+      await bundle({ specDir, cacheDir, validate: 'warn' });
+      const logged = warn.mock.calls.map((call) => call[0]);
+      expect(logged).toEqual([expect.stringContaining('must NOT have additional properties')]);
+
+      warn.mockClear();
+      const result = await bundle({ specDir, cacheDir, validate: 'warn' });
+      expect(result.stats.cacheHit).toBe(true);
+      expect(result.stats.validationIssueCount).toBe(1);
+      expect(warn.mock.calls.map((call) => call[0])).toEqual(logged);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('misses when the spec tree changes', async () => {
+    await bundle({ specDir, cacheDir });
+    writeSpec(specDir, ['/things', '/widgets']);
+
+    const result = await bundle({ specDir, cacheDir });
+    expect(result.stats.cacheHit).toBe(false);
+    expect(result.stats.pathCount).toBe(2);
+  });
+
+  it('misses when a result-affecting option changes', async () => {
+    await bundle({ specDir, cacheDir });
+    const result = await bundle({
+      specDir,
+      cacheDir,
+      dereferencePathLocalRefs: true,
+    });
+    expect(result.stats.cacheHit).toBe(false);
+  });
+
+  it('is bypassed when custom metadata extractors are set', async () => {
+    const metadataExtractors = [{ name: 'pathCount', extract: () => [1] }];
+    await bundle({ specDir, cacheDir, metadataExtractors });
+    const result = await bundle({ specDir, cacheDir, metadataExtractors });
+    expect(result.stats.cacheHit).toBeUndefined();
+    expect(result.metadata.extensions).toEqual({ pathCount: [1] });
+    expect(fs.existsSync(cacheDir)).toBe(false);
+  });
+
+  it('evicts the least recently used entries beyond the limit', async () => {
+    const { report: _, ...result } = await bundle({ specDir });
+    const keys = ['a', 'b', 'c'].map((c) => c.repeat(64));
+    const age = (key: string, seconds: number) => {
+      const time = new Date(Date.now() - seconds * 1000);
+      fs.utimesSync(path.join(cacheDir, `${key}.json`), time, time);
+    };
+    writeCachedBundle(cacheDir, keys[0], { result, warnings: [] }, 2);
+    age(keys[0], 20);
+    writeCachedBundle(cacheDir, keys[1], { result, warnings: [] }, 2);
+    age(keys[1], 10);
+    // Reading the oldest entry makes it the most recently used.
+    expect(readCachedBundle(cacheDir, keys[0])).toBeDefined();
+
+    writeCachedBundle(cacheDir, keys[2], { result, warnings: [] }, 2);
+    expect(fs.readdirSync(cacheDir).sort()).toEqual([
+      `${keys[0]}.json`,
+      `${keys[2]}.json`,
+    ]);
+  });
+});
+
+describe('bundleCacheKey', () => {
+  it('ignores output paths and the cache location', () => {
+    const base = bundleCacheKey('sha256:abc', { specDir: 'a' });
+    expect(
+      bundleCacheKey('sha256:abc', {
+        specDir: 'b',
+        cacheDir: 'c',
+        outputSpec: 'x.json',
+        outputMetadata: 'y.json',
+      })
+    ).toBe(base);
+  });
+
+  it('depends on the spec hash and on option values, not key order', () => {
+    const a = bundleCacheKey('sha256:abc', {
+      specDir: 'a',
+      manualOverrides: { x: 'X', y: 'Y' },
+    });
+    expect(
+      bundleCacheKey('sha256:abc', {
+        specDir: 'a',
+        manualOverrides: { y: 'Y', x: 'X' },
+      })
+    ).toBe(a);
+    expect(
+      bundleCacheKey('sha256:def', {
+        specDir: 'a',
+        manualOverrides: { x: 'X', y: 'Y' },
+      })
+    ).not.toBe(a);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for canonical key ordering (`canonicalOrder` / `sortCanonically`).
+ */
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { sortCanonically } from '../src/helpers.js';
+
+describe('sortCanonically', () => {
+  it('uses the OpenAPI order for top-level keys and components buckets', () => {
+    const doc: Record<string, unknown> = {
+      'x-custom': true,
+      components: { responses: {}, schemas: {} },
+      paths: {},
+      info: {},
+      openapi: '3.0.3',
+      tags: [],
+    };
+    sortCanonically(doc);
+    expect(Object.keys(doc)).toEqual([
+      'openapi',
+      'info',
+      'paths',
+      'components',
+      'tags',
+      'x-custom',
+    ]);
+    expect(Object.keys(doc.components as object)).toEqual([
+      'schemas',
+      'responses',
+    ]);
+  });
+
+  it('sorts paths, bucket entries and properties maps in place', () => {
+    const schemas = {
+      Zebra: { type: 'object', properties: { z: {}, a: {} } },
+      Apple: { type: 'string' },
+    };
+    const doc: Record<string, unknown> = {
+      paths: { '/z': {}, '/a': {} },
+      components: { schemas },
+    };
+    sortCanonically(doc);
+
+    expect(Object.keys(doc.paths as object)).toEqual(['/a', '/z']);
+    expect((doc.components as { schemas: unknown }).schemas).toBe(schemas);
+    expect(Object.keys(schemas)).toEqual(['Apple', 'Zebra']);
+    expect(Object.keys(schemas.Zebra.properties)).toEqual(['a', 'z']);
+    // Schema keywords themselves are not alphabetized.
+    expect(Object.keys(schemas.Zebra)).toEqual(['type', 'properties']);
+  });
+
+  it('treats a property named "properties" as a schema, not a keyword', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        properties: { type: 'object', description: 'd' },
+      },
+    };
+    sortCanonically({ components: { schemas: { S: schema } } });
+    expect(Object.keys(schema.properties.properties)).toEqual([
+      'type',
+      'description',
+    ]);
+  });
+
+  it('leaves arrays and example payloads alone', () => {
+    const schema = {
+      enum: ['B', 'A'],
+      example: { z: 1, a: 2 },
+      properties: { b: {}, a: {} },
+    };
+    sortCanonically({ components: { schemas: { S: schema } } });
+    expect(schema.enum).toEqual(['B', 'A']);
+    expect(Object.keys(schema.example)).toEqual(['z', 'a']);
+  });
+});
+
+describe('bundle({ canonicalOrder })', () => {
+  function writeSpec(order: 'forward' | 'reverse'): string {
+    const pathDefs = [
+      `  /alpha:
+    get:
+      operationId: getAlpha
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Alpha'
+`,
+      `  /beta:
+    get:
+      operationId: getBeta
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Beta'
+`,
+    ];
+    const alphaProps = ['        id:\n          type: string\n', '        name:\n          type: string\n'];
+    const schemaDefs = [
+      `    Alpha:
+      type: object
+      properties:
+${(order === 'forward' ? alphaProps : [...alphaProps].reverse()).join('')}`,
+      `    Beta:
+      type: string
+`,
+    ];
+    const ordered = <T>(xs: T[]) => (order === 'forward' ? xs : [...xs].reverse());
+    const yaml = `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+${ordered(pathDefs).join('')}components:
+  schemas:
+${ordered(schemaDefs).join('')}`;
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), `bundler-canonical-${order}-`));
+    fs.writeFileSync(path.join(dir, 'rest-api.yaml'), yaml);
+    return dir;
+  }
+
+  it('produces byte-identical output for reshuffled definitions', async () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-canonical-out-'));
+    const outputs: string[] = [];
+    for (const order of ['forward', 'reverse'] as const) {
+      const outputSpec = path.join(outDir, `${order}.json`);
+      await bundle({ specDir: writeSpec(order), outputSpec, canonicalOrder: true });
+      outputs.push(fs.readFileSync(outputSpec, 'utf8'));
+    }
+    expect(outputs[1]).toBe(outputs[0]);
+
+    const spec = JSON.parse(outputs[0]);
+    expect(Object.keys(spec.paths)).toEqual(['/alpha', '/beta']);
+    expect(Object.keys(spec.components.schemas)).toEqual(['Alpha', 'Beta']);
+    expect(Object.keys(spec.components.schemas.Alpha.properties)).toEqual([
+      'id',
+      'name',
+    ]);
+  });
+
+  it('keeps upstream order by default', async () => {
+    const result = await bundle({ specDir: writeSpec('reverse') });
+    expect(Object.keys(result.spec.paths as object)).toEqual(['/beta', '/alpha']);
+  });
+});
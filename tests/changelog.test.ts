@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { extractMetadata } from '../src/metadata.js';
+import { renderChangelog } from '../src/changelog.js';
+import type { DiffInput } from '../src/diff.js';
+
+function toInput(
+  schemas: Record<string, unknown>,
+  paths: Record<string, unknown>
+): DiffInput {
+  const spec = { openapi: '3.0.3', paths, components: { schemas } };
+  return { metadata: extractMetadata(spec, schemas, 'sha256:x') };
+}
+
+const oldSchemas = {
+  LongKey: { type: 'string', pattern: '^-?[0-9]+$' },
+  JobKey: {
+    'x-semantic-type': 'JobKey',
+    allOf: [{ $ref: '#/components/schemas/LongKey' }],
+  },
+  StateEnum: {
+    type: 'string',
+    enum: ['ACTIVE', 'UNSPECIFIED', 'UNKNOWN'],
+    'x-deprecated-enum-members': [
+      { name: 'UNSPECIFIED', deprecatedInVersion: '8.8.0' },
+    ],
+  },
+};
+
+const oldPaths = {
+  '/jobs/search': {
+    post: { operationId: 'searchJobs', tags: ['Job'] },
+  },
+};
+
+describe('renderChangelog', () => {
+  it('reports no changes for identical inputs', () => {
+    const md = renderChangelog(
+      toInput(oldSchemas, oldPaths),
+      toInput(oldSchemas, oldPaths),
+      { from: 'stable/8.8', to: 'main' }
+    );
+    expect(md).toBe(
+      '## API changes: `stable/8.8` → `main`\n\n_No API changes._\n'
+    );
+  });
+
+  it('groups new and newly eventually consistent operations by tag', () => {
+    const newSchemas = {
+      ...structuredClone(oldSchemas),
+      UserTaskKey: {
+        'x-semantic-type': 'UserTaskKey',
+        allOf: [{ $ref: '#/components/schemas/LongKey' }],
+      },
+    };
+    newSchemas.StateEnum['x-deprecated-enum-members'].push({
+      name: 'UNKNOWN',
+      deprecatedInVersion: '8.9.0',
+    });
+    const newPaths = {
+      '/jobs/search': {
+        post: {
+          operationId: 'searchJobs',
+          tags: ['Job'],
+          'x-eventually-consistent': true,
+        },
+      },
+      '/jobs/{jobKey}': {
+        get: { operationId: 'getJob', tags: ['Job'], summary: 'Get a job' },
+      },
+      '/user-tasks/search': {
+        post: {
+          operationId: 'searchUserTasks',
+          tags: ['User task'],
+          'x-eventually-consistent': true,
+        },
+      },
+      '/ping': { get: { operationId: 'ping' } },
+    };
+
+    const md = renderChangelog(
+      toInput(oldSchemas, oldPaths),
+      toInput(newSchemas, newPaths),
+      { from: 'stable/8.8', to: 'main' }
+    );
+
+    expect(md).toBe(
+      [
+        '## API changes: `stable/8.8` → `main`',
+        '',
+        '### Job',
+        '',
+        '**New operations**',
+        '',
+        '- `getJob` (`GET /jobs/{jobKey}`) — Get a job',
+        '',
+        '**New eventually consistent operations**',
+        '',
+        '- `searchJobs` (`POST /jobs/search`)',
+        '',
+        '### User task',
+        '',
+        '**New operations**',
+        '',
+        '- `searchUserTasks` (`POST /user-tasks/search`)',
+        '',
+        '**New eventually consistent operations**',
+        '',
+        '- `searchUserTasks` (`POST /user-tasks/search`)',
+        '',
+        '### Untagged',
+        '',
+        '**New operations**',
+        '',
+        '- `ping` (`GET /ping`)',
+        '',
+        '### Deprecated enum members',
+        '',
+        '- `StateEnum.UNKNOWN` (deprecated in 8.9.0)',
+        '',
+        '### New semantic keys',
+        '',
+        '- `UserTaskKey` (system-key)',
+        '',
+      ].join('\n')
+    );
+  });
+});
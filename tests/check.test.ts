@@ -0,0 +1,94 @@
+/**
+ * Tests for the drift check (`checkBundle()`).
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { checkBundle, formatCheck } from '../src/check.js';
+import { silentLogger } from '../src/logger.js';
+import type { BundleOptions } from '../src/types.js';
+
+function specYaml(paths: string[]): string {
+  return `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+${paths
+  .map(
+    (p) => `  ${p}:
+    get:
+      operationId: get${p.replace(/\W/g, '')}
+      responses:
+        '200':
+          description: ok
+`
+  )
+  .join('')}`;
+}
+
+describe('checkBundle', () => {
+  let specDir: string;
+  let outDir: string;
+  let options: BundleOptions;
+
+  beforeEach(async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-check-'));
+    specDir = path.join(root, 'spec');
+    outDir = path.join(root, 'out');
+    fs.mkdirSync(specDir);
+    fs.writeFileSync(path.join(specDir, 'rest-api.yaml'), specYaml(['/a']));
+    options = {
+      specDir,
+      outputSpec: path.join(outDir, 'rest-api.bundle.json'),
+      outputMetadata: path.join(outDir, 'spec-metadata.json'),
+      outputReport: path.join(outDir, 'report.json'),
+      logger: silentLogger,
+    };
+    await bundle(options);
+  });
+
+  it('passes when the outputs match, ignoring the report', async () => {
+    fs.writeFileSync(options.outputReport!, '{}\n');
+    const check = await checkBundle(options);
+    expect(check.upToDate).toBe(true);
+    expect(check.outputs.map((o) => o.status)).toEqual(['up-to-date', 'up-to-date']);
+    expect(formatCheck(check)).toBe('All 2 output(s) are up to date');
+  });
+
+  it('reports stale and missing outputs without writing anything', async () => {
+    fs.writeFileSync(path.join(specDir, 'rest-api.yaml'), specYaml(['/a', '/b']));
+    fs.rmSync(options.outputMetadata!);
+    const before = fs.readFileSync(options.outputSpec!, 'utf8');
+    const cacheDir = path.join(outDir, 'cache');
+
+    const check = await checkBundle({ ...options, cacheDir });
+    expect(check.upToDate).toBe(false);
+    expect(check.outputs).toEqual([
+      {
+        path: options.outputSpec,
+        status: 'changed',
+        firstDifferentLine: expect.any(Number),
+        changedKeys: ['paths'],
+      },
+      { path: options.outputMetadata, status: 'missing' },
+    ]);
+    expect(formatCheck(check)).toBe(
+      '2 of 2 output(s) out of date:\n' +
+        `  ${options.outputSpec}: changed at line ${check.outputs[0].firstDifferentLine} (paths)\n` +
+        `  ${options.outputMetadata}: missing`
+    );
+
+    expect(fs.readFileSync(options.outputSpec!, 'utf8')).toBe(before);
+    expect(fs.existsSync(options.outputMetadata!)).toBe(false);
+    expect(fs.existsSync(cacheDir)).toBe(false);
+  });
+
+  it('fails when no output path is set', async () => {
+    await expect(checkBundle({ specDir, logger: silentLogger })).rejects.toThrow(
+      'Nothing to check: no output paths are set'
+    );
+  });
+});
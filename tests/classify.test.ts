@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import { extractMetadata } from '../src/metadata.js';
+import {
+  classifyChanges,
+  formatClassification,
+  hasBreakingChanges,
+} from '../src/classify.js';
+import type { ClassifiedChange } from '../src/classify.js';
+import type { DiffInput } from '../src/diff.js';
+
+function toInput(
+  schemas: Record<string, unknown>,
+  paths: Record<string, unknown>
+): DiffInput {
+  const spec = { openapi: '3.0.3', paths, components: { schemas } };
+  return { spec, metadata: extractMetadata(spec, schemas, 'sha256:x') };
+}
+
+function summarize(changes: ClassifiedChange[]): string[] {
+  return changes.map((c) => `${c.severity} ${c.section} ${c.id}: ${c.reason}`);
+}
+
+/** The OpenAPI subset the fixtures use, so that tests can edit them in place. */
+interface SchemaFixture {
+  type?: string;
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  enum?: string[];
+  required?: string[];
+  description?: string;
+  $ref?: string;
+  allOf?: SchemaFixture[];
+  properties?: Record<string, SchemaFixture>;
+  [extension: `x-${string}`]: unknown;
+}
+
+type ContentFixture = { content: Record<string, { schema: SchemaFixture }> };
+
+interface OperationFixture {
+  operationId: string;
+  tags: string[];
+  summary?: string;
+  parameters: { in: string; name: string; required: boolean }[];
+  requestBody: ContentFixture;
+  responses: Record<string, ContentFixture>;
+}
+
+type Schemas = Record<string, SchemaFixture>;
+type Paths = Record<string, { post: OperationFixture }>;
+
+const schemas: Schemas = {
+  LongKey: { type: 'string', pattern: '^-?[0-9]+$', minLength: 1, maxLength: 25 },
+  JobKey: {
+    'x-semantic-type': 'JobKey',
+    allOf: [{ $ref: '#/components/schemas/LongKey' }],
+  },
+  JobStateEnum: { type: 'string', enum: ['CREATED', 'FAILED', 'UNKNOWN'] },
+  JobFilter: {
+    type: 'object',
+    properties: {
+      state: { $ref: '#/components/schemas/JobStateEnum' },
+      type: { type: 'string' },
+    },
+  },
+  JobSearchRequest: {
+    type: 'object',
+    properties: { filter: { $ref: '#/components/schemas/JobFilter' } },
+  },
+  JobResult: {
+    type: 'object',
+    properties: { jobKey: { $ref: '#/components/schemas/JobKey' }, type: { type: 'string' } },
+  },
+};
+
+const paths: Paths = {
+  '/jobs/search': {
+    post: {
+      operationId: 'searchJobs',
+      tags: ['Job'],
+      parameters: [{ in: 'query', name: 'limit', required: false }],
+      requestBody: {
+        content: {
+          'application/json': { schema: { $ref: '#/components/schemas/JobSearchRequest' } },
+        },
+      },
+      responses: {
+        '200': {
+          content: {
+            'application/json': { schema: { $ref: '#/components/schemas/JobResult' } },
+          },
+        },
+      },
+    },
+  },
+};
+
+function mutate(fn: (s: Schemas, p: Paths) => void): DiffInput {
+  const s = structuredClone(schemas);
+  const p = structuredClone(paths);
+  fn(s, p);
+  return toInput(s, p);
+}
+
+describe('classifyChanges', () => {
+  const base = toInput(schemas, paths);
+
+  it('reports nothing for identical inputs', () => {
+    expect(classifyChanges(base, toInput(schemas, paths))).toEqual([]);
+  });
+
+  it('treats a newly required property in a (nested) request schema as breaking', () => {
+    const changes = classifyChanges(
+      base,
+      mutate((s) => {
+        s.JobFilter.required = ['type'];
+        s.JobResult.required = ['type'];
+      })
+    );
+    expect(summarize(changes)).toEqual([
+      'breaking schemas JobFilter: property "type" is now required in a request schema',
+      'non-breaking schemas JobResult: property "type" is now required',
+    ]);
+  });
+
+  it('treats a removed enum value as breaking and an added one as additive', () => {
+    const changes = classifyChanges(
+      base,
+      mutate((s) => {
+        s.JobStateEnum.enum = ['CREATED', 'FAILED', 'CANCELED'];
+      })
+    );
+    expect(summarize(changes)).toEqual([
+      'breaking schemas JobStateEnum: enum value UNKNOWN removed',
+      'additive schemas JobStateEnum: enum value CANCELED added',
+    ]);
+  });
+
+  it('treats a changed pattern in SchemaConstraints as breaking', () => {
+    const changes = classifyChanges(
+      base,
+      mutate((s) => {
+        s.LongKey.pattern = '^[0-9]+$';
+      })
+    );
+    expect(summarize(changes)).toContain(
+      'breaking schemas LongKey: pattern changed from ^-?[0-9]+$ to ^[0-9]+$'
+    );
+    expect(summarize(changes)).toContain(
+      'breaking semanticKeys job-key: pattern changed from ^-?[0-9]+$ to ^[0-9]+$'
+    );
+  });
+
+  it('treats relaxed length constraints as non-breaking', () => {
+    const changes = classifyChanges(
+      base,
+      mutate((s) => {
+        s.LongKey.maxLength = 30;
+      })
+    );
+    expect(hasBreakingChanges(changes)).toBe(false);
+  });
+
+  it('classifies query parameter changes', () => {
+    const changes = classifyChanges(
+      base,
+      mutate((_s, p) => {
+        p['/jobs/search'].post.parameters = [
+          { in: 'query', name: 'page', required: false },
+          { in: 'query', name: 'tenant', required: true },
+        ];
+      })
+    );
+    expect(summarize(changes)).toEqual([
+      'breaking operations searchJobs: query parameter "limit" removed',
+      'additive operations searchJobs: optional query parameter "page" added',
+      'breaking operations searchJobs: required query parameter "tenant" added',
+    ]);
+  });
+
+  it('treats a changed successResponseSchemaRef as breaking', () => {
+    const changes = classifyChanges(
+      base,
+      mutate((s, p) => {
+        s.JobSearchResult = s.JobResult;
+        p['/jobs/search'].post.responses['200'].content['application/json'].schema = {
+          $ref: '#/components/schemas/JobSearchResult',
+        };
+      })
+    );
+    expect(summarize(changes)).toEqual([
+      'breaking operations searchJobs: success response schema changed from JobResult to JobSearchResult',
+      'additive schemas JobSearchResult: schema added',
+    ]);
+  });
+
+  it('treats documentation-only edits as non-breaking', () => {
+    const changes = classifyChanges(
+      base,
+      mutate((s, p) => {
+        s.JobResult.description = 'A job';
+        p['/jobs/search'].post.summary = 'Search jobs';
+      })
+    );
+    expect(summarize(changes)).toEqual([
+      'non-breaking operations searchJobs: summary changed',
+      'non-breaking schemas JobResult: description changed',
+    ]);
+  });
+
+  it('classifies edits inside a property by the same keyword rules', () => {
+    const changes = classifyChanges(
+      base,
+      mutate((s) => {
+        s.JobResult.properties!.type.description = 'The job type';
+        s.JobResult.properties!.type['x-hint'] = 'worker';
+        s.JobFilter.properties!.type.format = 'uuid';
+      })
+    );
+    expect(summarize(changes)).toEqual([
+      'breaking schemas JobFilter: property "type": format changed',
+      'non-breaking schemas JobResult: property "type": description changed',
+      'non-breaking schemas JobResult: property "type": x-hint changed',
+    ]);
+  });
+
+  it('falls back to deprecated enum values when only metadata is compared', () => {
+    const deprecated = (values: string[]) =>
+      mutate((s) => {
+        s.JobStateEnum.enum = values;
+        s.JobStateEnum['x-deprecated-enum-members'] = [
+          { name: 'FAILED', deprecatedInVersion: '8.9.0' },
+        ];
+      }).metadata;
+    const changes = classifyChanges(
+      { metadata: deprecated(['CREATED', 'FAILED', 'UNKNOWN']) },
+      { metadata: deprecated(['CREATED', 'FAILED']) }
+    );
+    expect(summarize(changes)).toEqual([
+      'breaking deprecatedEnumMembers job-state-enum: enum value UNKNOWN removed',
+    ]);
+  });
+});
+
+describe('formatClassification', () => {
+  it('lists breaking changes first', () => {
+    expect(
+      formatClassification([
+        { section: 'operations', id: 'a', severity: 'additive', reason: 'operation added' },
+        { section: 'operations', id: 'b', severity: 'breaking', reason: 'operation removed' },
+      ])
+    ).toBe(
+      '[breaking] operations b: operation removed\n[additive] operations a: operation added'
+    );
+  });
+});
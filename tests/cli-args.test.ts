@@ -0,0 +1,46 @@
+/**
+ * Tests for CLI argument parsing and merging with config file values.
+ */
+import { describe, it, expect } from 'vitest';
+import { applyConfig, parseArgs } from '../src/cli-args.js';
+
+const parse = (...flags: string[]) => parseArgs(['node', 'camunda-schema-bundler', ...flags]);
+
+describe('applyConfig', () => {
+  it('fills options not given on the command line from the config', () => {
+    const args = parse('--ref', 'main');
+    applyConfig(args, { ref: 'stable/8.8', canonicalOrder: true, includeTags: ['Job'] });
+    expect(args.ref).toBe('main');
+    expect(args.canonicalOrder).toBe(true);
+    expect(args.includeTags).toEqual(['Job']);
+  });
+
+  it('lets --no-<flag> switch off a config value of true', () => {
+    const args = parse('--no-canonical-order', '--no-provenance');
+    applyConfig(args, { canonicalOrder: true, provenance: true, pruneUnusedSchemas: true });
+    expect(args.canonicalOrder).toBe(false);
+    expect(args.provenance).toBe(false);
+    expect(args.pruneUnusedSchemas).toBe(true);
+  });
+
+  it('lets a flag switch on a config value of false', () => {
+    const args = parse('--deref-path-local');
+    applyConfig(args, { dereferencePathLocalRefs: false });
+    expect(args.derefPathLocal).toBe(true);
+  });
+
+  it('maps the cache config key to --no-cache and --cache', () => {
+    const disabled = parse();
+    applyConfig(disabled, { cache: false });
+    expect(disabled.cache).toBe(false);
+
+    const enabled = parse('--cache');
+    applyConfig(enabled, { cache: false });
+    expect(enabled.cache).toBe(true);
+
+    const defaults = parse();
+    applyConfig(defaults, {});
+    expect(defaults.cache).toBe(true);
+    expect(defaults.canonicalOrder).toBe(false);
+  });
+});
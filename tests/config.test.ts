@@ -0,0 +1,124 @@
+/**
+ * Tests for CLI config file discovery and loading.
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { findConfigFile, loadConfig } from '../src/config.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-config-'));
+});
+
+function write(name: string, content: string): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content, 'utf8');
+  return file;
+}
+
+describe('findConfigFile', () => {
+  it('returns undefined when no config file exists', () => {
+    expect(findConfigFile(dir)).toBeUndefined();
+  });
+
+  it('finds a YAML config file', () => {
+    const file = write('camunda-schema-bundler.config.yaml', 'ref: main\n');
+    expect(findConfigFile(dir)).toBe(file);
+  });
+
+  it('prefers the JSON config file', () => {
+    write('camunda-schema-bundler.config.yml', 'ref: main\n');
+    const file = write('camunda-schema-bundler.config.json', '{}');
+    expect(findConfigFile(dir)).toBe(file);
+  });
+});
+
+describe('loadConfig', () => {
+  it('loads options including manualOverrides and profiles', () => {
+    const file = write(
+      'bundler.yaml',
+      `ref: stable/8.8
+dereferencePathLocalRefs: true
+includeTags: [Job]
+validate: warn
+manualOverrides:
+  '#/paths/~1jobs/get/responses/200': JobResult
+profiles:
+  - name: csharp
+    canonicalOrder: true
+`
+    );
+    expect(loadConfig(file)).toEqual({
+      ref: 'stable/8.8',
+      dereferencePathLocalRefs: true,
+      includeTags: ['Job'],
+      validate: 'warn',
+      manualOverrides: { '#/paths/~1jobs/get/responses/200': 'JobResult' },
+      profiles: [{ name: 'csharp', canonicalOrder: true }],
+    });
+  });
+
+  it('resolves paths relative to the config file', () => {
+    const file = write(
+      'bundler.json',
+      JSON.stringify({
+        specDir: 'spec',
+        outputSpec: 'out/rest-api.bundle.json',
+        cacheDir: '/abs/cache',
+        profiles: [{ name: 'p', outputSpec: 'out/p.json' }],
+      })
+    );
+    const config = loadConfig(file);
+    expect(config.specDir).toBe(path.join(dir, 'spec'));
+    expect(config.outputSpec).toBe(path.join(dir, 'out/rest-api.bundle.json'));
+    expect(config.cacheDir).toBe('/abs/cache');
+    expect(config.profiles?.[0].outputSpec).toBe(path.join(dir, 'out/p.json'));
+  });
+
+  it('treats an empty file as an empty config', () => {
+    expect(loadConfig(write('empty.yaml', ''))).toEqual({});
+  });
+
+  it('rejects unknown keys', () => {
+    const file = write('bundler.yaml', 'outputSepc: x.json\n');
+    expect(() => loadConfig(file)).toThrow('unknown option "outputSepc"');
+  });
+
+  it('rejects values of the wrong type', () => {
+    const file = write('bundler.yaml', 'includeTags: Job\n');
+    expect(() => loadConfig(file)).toThrow('"includeTags" must be a list of strings');
+  });
+
+  it('checks fetch timeouts and retries like fetchSpec() does', () => {
+    const file = write('bundler.yaml', 'fetchTimeoutMs: 60000\nfetchRetries: 0\n');
+    expect(loadConfig(file)).toEqual({ fetchTimeoutMs: 60000, fetchRetries: 0 });
+    write('bundler.yaml', 'fetchTimeoutMs: 0\n');
+    expect(() => loadConfig(file)).toThrow(
+      `${file}: Fetch timeout must be a positive number of milliseconds, got 0`
+    );
+    write('bundler.yaml', 'fetchRetries: -1\n');
+    expect(() => loadConfig(file)).toThrow(
+      `${file}: Fetch retries must be a non-negative integer, got -1`
+    );
+  });
+
+  it('checks manualOverrides keys like --overrides does', () => {
+    const file = write('bundler.yaml', "manualOverrides:\n  '#/components/schemas/X': Y\n");
+    expect(() => loadConfig(file)).toThrow(
+      `${file}: override key "#/components/schemas/X" is not a path-local $ref`
+    );
+  });
+
+  it('rejects invalid enum values', () => {
+    const file = write('bundler.yaml', 'validate: strict\n');
+    expect(() => loadConfig(file)).toThrow('"validate" must be one of off, warn, error');
+  });
+
+  it('validates profiles', () => {
+    const file = write('bundler.yaml', 'profiles:\n  - specDir: x\n');
+    expect(() => loadConfig(file)).toThrow('missing a "name"');
+  });
+});
@@ -3,6 +3,7 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import { bundle } from '../src/bundle.js';
+import type { DecisionLogEntry } from '../src/types.js';
 
 /**
  * Regression test for camunda/camunda-schema-bundler#32.
@@ -29,6 +30,7 @@ import { bundle } from '../src/bundle.js';
 describe('cross-file $ref name preservation (#32)', () => {
   let specDir: string;
   let bundled: Record<string, unknown>;
+  let decisionLog: DecisionLogEntry[];
 
   beforeAll(async () => {
     specDir = fs.mkdtempSync(
@@ -132,6 +134,7 @@ paths:
 
     const result = await bundle({ specDir });
     bundled = result.spec;
+    decisionLog = result.decisionLog;
   });
 
   function refOf(method: string, apiPath: string, status: string): string | undefined {
@@ -172,4 +175,20 @@ paths:
       '#/components/schemas/MappingRuleUpsertResult'
     );
   });
+
+  it('records the original-ref fallback and the rejected aliases in the decision log', () => {
+    expect(
+      decisionLog.find(
+        (d) =>
+          d.path ===
+          '#/paths/~1create/post/responses/201/content/application~1json/schema'
+      )
+    ).toEqual({
+      step: 'dedup',
+      path: '#/paths/~1create/post/responses/201/content/application~1json/schema',
+      component: 'MappingRuleCreateResult',
+      strategy: 'original-ref',
+      rejectedCandidates: ['MappingRuleUpdateResult', 'MappingRuleUpsertResult'],
+    });
+  });
 });
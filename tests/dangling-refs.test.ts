@@ -0,0 +1,138 @@
+/**
+ * Tests for the post-bundle dangling `$ref` check (`allowDanglingRefs`).
+ */
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { findDanglingRefs } from '../src/helpers.js';
+
+describe('findDanglingRefs', () => {
+  it('lists every unresolvable internal ref with its referrer pointer', () => {
+    const doc = {
+      paths: {
+        '/jobs': {
+          get: {
+            responses: {
+              '200': {
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/Job' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Page: {
+            oneOf: [
+              { $ref: '#/components/schemas/Missing' },
+              { $ref: '#/components/schemas/Job' },
+            ],
+          },
+        },
+      },
+    };
+    expect(findDanglingRefs(doc)).toEqual([
+      '#/paths/~1jobs/get/responses/200/content/application~1json/schema -> #/components/schemas/Job',
+      '#/components/schemas/Page/oneOf/0 -> #/components/schemas/Missing',
+      '#/components/schemas/Page/oneOf/1 -> #/components/schemas/Job',
+    ]);
+  });
+
+  it('treats refs that resolve through another $ref as resolvable', () => {
+    const doc = {
+      paths: {
+        '/a': { get: { schema: { $ref: '#/components/schemas/Target' } } },
+        '/b': {
+          get: { schema: { $ref: '#/paths/~1a/get/schema/properties/id' } },
+        },
+      },
+      components: {
+        schemas: {
+          Target: { properties: { id: { type: 'string' } } },
+        },
+      },
+    };
+    expect(findDanglingRefs(doc)).toEqual([]);
+  });
+
+  it('ignores external refs', () => {
+    expect(findDanglingRefs({ a: { $ref: 'other.yaml#/X' } })).toEqual([]);
+  });
+});
+
+describe('bundle() dangling ref check', () => {
+  // `schemas.yaml` is not referenced from the entry file, so Step 2 augments
+  // `Orphan` into the bundle and rewrites its external ref to a local one —
+  // but the file defining the target is never scanned, so the local ref
+  // points at a component that does not exist.
+  function writeSpec(withOrphan = false): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-dangling-'));
+    fs.writeFileSync(
+      path.join(dir, 'rest-api.yaml'),
+      `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /a:
+    get:
+      operationId: getA
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: 'thing.yaml#/Thing'
+`
+    );
+    fs.writeFileSync(
+      path.join(dir, 'thing.yaml'),
+      `Thing:
+  type: object
+  properties:
+    id:
+      type: string
+`
+    );
+    if (withOrphan) {
+      fs.writeFileSync(
+        path.join(dir, 'schemas.yaml'),
+        `components:
+  schemas:
+    Orphan:
+      type: object
+      properties:
+        other:
+          $ref: '../elsewhere.yaml#/components/schemas/NeverAugmented'
+`
+      );
+    }
+    return dir;
+  }
+
+  it('counts zero dangling refs for a clean bundle', async () => {
+    const result = await bundle({ specDir: writeSpec() });
+    expect(result.stats.danglingRefCount).toBe(0);
+  });
+
+  it('fails with the referrer locations', async () => {
+    await expect(bundle({ specDir: writeSpec(true) })).rejects.toThrow(
+      /1 \$ref\(s\) point at targets that do not exist in the bundle:\n {2}#\/components\/schemas\/Orphan\/properties\/other -> #\/components\/schemas\/NeverAugmented/
+    );
+  });
+
+  it('reports but does not fail with allowDanglingRefs', async () => {
+    const result = await bundle({
+      specDir: writeSpec(true),
+      allowDanglingRefs: true,
+    });
+    expect(result.stats.danglingRefCount).toBe(1);
+  });
+});
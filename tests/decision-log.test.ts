@@ -0,0 +1,97 @@
+/**
+ * Tests for the normalization decision log (`decisionLog` / `outputDecisionLog`).
+ */
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+
+// Two operations share one external schema, so SwaggerParser inlines it at
+// /a and points /b at it with a path-local $ref. With `withWidget`, the
+// inline is identical to the `Widget` component.
+const schemaPointer = (p: string) =>
+  `#/paths/~1${p}/get/responses/200/content/application~1json/schema`;
+
+function writeSpec(withWidget = true): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-decisions-'));
+  const op = (id: string) => `    get:
+      operationId: ${id}
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: 'thing.yaml#/Thing'
+`;
+  const thing = `type: object
+      properties:
+        id:
+          type: string
+`;
+  fs.writeFileSync(
+    path.join(dir, 'rest-api.yaml'),
+    `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /a:
+${op('getA')}  /b:
+${op('getB')}components:
+  schemas:
+${withWidget ? `    Widget:\n      ${thing}` : ''}    Gadget:
+      type: object
+`
+  );
+  fs.writeFileSync(path.join(dir, 'thing.yaml'), `Thing:\n  ${thing.replace(/^ {4}/gm, '')}`);
+  return dir;
+}
+
+describe('decision log', () => {
+  it('records signature and component-ref matches during normalization', async () => {
+    const result = await bundle({ specDir: writeSpec() });
+    expect(result.decisionLog).toEqual([
+      {
+        step: 'normalize',
+        path: schemaPointer('a'),
+        component: 'Widget',
+        strategy: 'exact-signature',
+        rejectedCandidates: [],
+      },
+      {
+        step: 'normalize',
+        path: schemaPointer('b'),
+        component: 'Widget',
+        strategy: 'component-ref',
+        rejectedCandidates: [],
+      },
+    ]);
+  });
+
+  it('records manual overrides', async () => {
+    const result = await bundle({
+      specDir: writeSpec(false),
+      manualOverrides: { [schemaPointer('a')]: 'Gadget' },
+    });
+    expect(result.decisionLog).toContainEqual({
+      step: 'normalize',
+      path: schemaPointer('b'),
+      component: 'Gadget',
+      strategy: 'manual-override',
+      rejectedCandidates: [],
+    });
+  });
+
+  it('writes outputDecisionLog', async () => {
+    const outputDecisionLog = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-decisions-out-')),
+      'decision-log.json'
+    );
+    const result = await bundle({ specDir: writeSpec(), outputDecisionLog });
+    expect(JSON.parse(fs.readFileSync(outputDecisionLog, 'utf8'))).toEqual(
+      result.decisionLog
+    );
+  });
+});
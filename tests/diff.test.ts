@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { extractMetadata } from '../src/metadata.js';
+import {
+  diffBundles,
+  formatDiff,
+  hasChanges,
+  readDiffInput,
+} from '../src/diff.js';
+import type { DiffInput } from '../src/diff.js';
+
+function makeSpec(
+  schemas: Record<string, unknown>,
+  paths: Record<string, unknown>
+): Record<string, unknown> {
+  return {
+    openapi: '3.0.3',
+    info: { title: 't', version: '1' },
+    paths,
+    components: { schemas },
+  };
+}
+
+function toInput(spec: Record<string, unknown>): DiffInput {
+  const schemas = (spec['components'] as Record<string, unknown>)[
+    'schemas'
+  ] as Record<string, unknown>;
+  return { spec, metadata: extractMetadata(spec, schemas, 'sha256:x') };
+}
+
+const baseSchemas = {
+  LongKey: { type: 'string', pattern: '^-?[0-9]+$' },
+  JobKey: {
+    'x-semantic-type': 'JobKey',
+    allOf: [{ $ref: '#/components/schemas/LongKey' }],
+  },
+  StateEnum: {
+    type: 'string',
+    enum: ['ACTIVE', 'DONE'],
+  },
+  JobResult: {
+    type: 'object',
+    properties: { jobKey: { $ref: '#/components/schemas/JobKey' } },
+  },
+};
+
+const basePaths = {
+  '/jobs/{jobKey}': {
+    get: {
+      operationId: 'getJob',
+      tags: ['Job'],
+      parameters: [{ in: 'path', name: 'jobKey', required: true }],
+      responses: {
+        '200': {
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/JobResult' },
+            },
+          },
+        },
+      },
+    },
+  },
+  '/jobs/{jobKey}/fail': {
+    post: {
+      operationId: 'failJob',
+      tags: ['Job'],
+      parameters: [{ in: 'path', name: 'jobKey', required: true }],
+    },
+  },
+};
+
+describe('diffBundles', () => {
+  it('reports no changes for identical inputs', () => {
+    const spec = makeSpec(baseSchemas, basePaths);
+    const diff = diffBundles(toInput(spec), toInput(structuredClone(spec)));
+    expect(hasChanges(diff)).toBe(false);
+    expect(diff.schemasCompared).toBe(true);
+    expect(formatDiff(diff)).toBe('No changes.');
+  });
+
+  it('reports added, removed and changed entries per section', () => {
+    const oldSpec = makeSpec(baseSchemas, basePaths);
+    const newSchemas = {
+      ...structuredClone(baseSchemas),
+      StateEnum: {
+        type: 'string',
+        enum: ['ACTIVE', 'DONE', 'CANCELED'],
+        'x-deprecated-enum-members': [{ name: 'DONE', deprecatedInVersion: '8.9.0' }],
+      },
+      UserTaskKey: {
+        'x-semantic-type': 'UserTaskKey',
+        allOf: [{ $ref: '#/components/schemas/LongKey' }],
+      },
+    };
+    const { '/jobs/{jobKey}/fail': _, ...keptPaths } = structuredClone(basePaths);
+    keptPaths['/jobs/{jobKey}'].get.parameters.push({
+      in: 'query',
+      name: 'verbose',
+      required: false,
+    });
+    const newPaths = {
+      ...keptPaths,
+      '/user-tasks/{userTaskKey}': {
+        get: { operationId: 'getUserTask', tags: ['User task'] },
+      },
+    };
+    const newSpec = makeSpec(newSchemas, newPaths);
+
+    const diff = diffBundles(toInput(oldSpec), toInput(newSpec));
+
+    expect(diff.operations.map((e) => [e.id, e.kind])).toEqual([
+      ['failJob', 'removed'],
+      ['getJob', 'changed'],
+      ['getUserTask', 'added'],
+    ]);
+    expect(diff.operations[1].changedFields).toEqual(['queryParams']);
+
+    expect(diff.schemas.map((e) => [e.id, e.kind])).toEqual([
+      ['StateEnum', 'changed'],
+      ['UserTaskKey', 'added'],
+    ]);
+    expect(diff.schemas[0].changedFields).toEqual([
+      'enum',
+      'x-deprecated-enum-members',
+    ]);
+
+    expect(diff.semanticKeys.map((e) => [e.id, e.kind])).toEqual([
+      ['user-task-key', 'added'],
+    ]);
+    expect(diff.deprecatedEnumMembers.map((e) => [e.id, e.kind])).toEqual([
+      ['state-enum', 'added'],
+    ]);
+    expect(diff.unions).toEqual([]);
+  });
+
+  it('skips schemas when either side has no bundled spec', () => {
+    const spec = makeSpec(baseSchemas, basePaths);
+    const { metadata } = toInput(spec);
+    const diff = diffBundles({ metadata }, toInput(spec));
+    expect(diff.schemasCompared).toBe(false);
+    expect(diff.schemas).toEqual([]);
+    expect(formatDiff(diff)).toContain('schemas not compared');
+  });
+
+  it('renders human-readable text', () => {
+    const oldSpec = makeSpec(baseSchemas, basePaths);
+    const newPaths = {
+      ...basePaths,
+      '/jobs/{jobKey}': {
+        get: { ...basePaths['/jobs/{jobKey}'].get, summary: 'Get a job' },
+      },
+    };
+    const diff = diffBundles(toInput(oldSpec), toInput(makeSpec(baseSchemas, newPaths)));
+    expect(formatDiff(diff)).toBe(
+      'operations: 0 added, 0 removed, 1 changed\n  ~ getJob (summary)'
+    );
+  });
+});
+
+describe('readDiffInput', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-diff-'));
+
+  it('derives metadata from a bundled spec', () => {
+    const file = path.join(dir, 'rest-api.bundle.json');
+    fs.writeFileSync(file, JSON.stringify(makeSpec(baseSchemas, basePaths)));
+    const input = readDiffInput(file);
+    expect(input.spec).toBeDefined();
+    expect(input.metadata.operations.map((o) => o.operationId)).toEqual([
+      'getJob',
+      'failJob',
+    ]);
+  });
+
+  it('accepts a metadata IR', () => {
+    const file = path.join(dir, 'spec-metadata.json');
+    const { metadata } = toInput(makeSpec(baseSchemas, basePaths));
+    fs.writeFileSync(file, JSON.stringify(metadata));
+    const input = readDiffInput(file);
+    expect(input.spec).toBeUndefined();
+    expect(input.metadata.integrity.totalOperations).toBe(2);
+  });
+
+  it('rejects unrelated JSON', () => {
+    const file = path.join(dir, 'other.json');
+    fs.writeFileSync(file, '{"hello":"world"}');
+    expect(() => readDiffInput(file)).toThrow(/neither a bundled OpenAPI spec/);
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Tests for offline `fetchSpec()` sources (`repoPath`, `archivePath`), the
+ * spec lock file (`lockFile`, `locked`), and clone retries, timeouts,
+ * progress and error types (against `file://` URLs of a local repo).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  fetchSpec,
+  DEFAULT_SPEC_DIR,
+  MONOLITHIC_SPEC_DIR,
+  type FetchProgress,
+} from '../src/fetch.js';
+import {
+  FetchCommandError,
+  GitUnavailableError,
+  RefNotFoundError,
+  SpecEntryNotFoundError,
+} from '../src/errors.js';
+import { hashDirectoryTree } from '../src/helpers.js';
+import { silentLogger, type Logger } from '../src/logger.js';
+
+let root: string;
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', ['-C', repo, ...args], { encoding: 'utf8' });
+}
+
+function writeFile(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+beforeAll(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-fetch-'));
+  repo = path.join(root, 'camunda');
+  fs.mkdirSync(repo);
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'user.name', 'test');
+  writeFile(path.join(repo, DEFAULT_SPEC_DIR, 'rest-api.yaml'), 'openapi: 3.0.3 # v1\n');
+  writeFile(path.join(repo, DEFAULT_SPEC_DIR, 'jobs.yaml'), 'paths: {}\n');
+  writeFile(path.join(repo, MONOLITHIC_SPEC_DIR, 'rest-api.yaml'), 'openapi: 3.0.3 # mono\n');
+  writeFile(path.join(repo, 'README.md'), 'unrelated\n');
+  git('add', '-A');
+  git('commit', '-q', '-m', 'v1');
+  git('branch', 'stable/8.9');
+  // Uncommitted working-tree changes must not leak into an export.
+  writeFile(path.join(repo, DEFAULT_SPEC_DIR, 'rest-api.yaml'), 'openapi: 3.0.3 # dirty\n');
+});
+
+describe('fetchSpec() from a local repo', () => {
+  it('exports the spec dir at ref without cloning', async () => {
+    const outputDir = path.join(root, 'out-repo');
+    const result = await fetchSpec({
+      repoPath: repo,
+      ref: 'stable/8.9',
+      outputDir,
+      logger: silentLogger,
+    });
+    expect(result.fetched).toBe(true);
+    expect(fs.readFileSync(result.entryPath, 'utf8')).toBe('openapi: 3.0.3 # v1\n');
+    expect(fs.readdirSync(outputDir).sort()).toEqual(['jobs.yaml', 'rest-api.yaml']);
+  });
+
+  it('fails with RefNotFoundError when the ref does not exist in the local repo', async () => {
+    const fetching = fetchSpec({
+      repoPath: repo,
+      ref: 'stable/9.9',
+      outputDir: path.join(root, 'out-missing'),
+      logger: silentLogger,
+    });
+    await expect(fetching).rejects.toBeInstanceOf(RefNotFoundError);
+    await expect(fetching).rejects.toThrow(`Ref "stable/9.9" not found in ${repo}`);
+  });
+
+  it('fails with SpecEntryNotFoundError when the spec dir does not exist at ref', async () => {
+    const fetching = fetchSpec({
+      repoPath: repo,
+      specDir: 'missing/spec',
+      outputDir: path.join(root, 'out-no-spec-dir'),
+      logger: silentLogger,
+    });
+    await expect(fetching).rejects.toBeInstanceOf(SpecEntryNotFoundError);
+    await expect(fetching).rejects.toThrow(
+      new SpecEntryNotFoundError(
+        `Upstream spec entry missing/spec/rest-api.yaml not found in ${repo} at main`,
+        `${repo}:missing/spec/rest-api.yaml`
+      )
+    );
+  });
+});
+
+describe('fetchSpec() from an archive', () => {
+  it('extracts the spec dir from a tarball wrapped in a top-level directory', async () => {
+    const archivePath = path.join(root, 'camunda-8.9.0.tar.gz');
+    git('archive', '--format=tar.gz', '--prefix=camunda-8.9.0/', '-o', archivePath, 'main');
+    const result = await fetchSpec({
+      archivePath,
+      outputDir: path.join(root, 'out-tar'),
+      logger: silentLogger,
+    });
+    expect(fs.readFileSync(result.entryPath, 'utf8')).toBe('openapi: 3.0.3 # v1\n');
+  });
+
+  it('uses specDirForRef() to locate the spec inside a zip', async () => {
+    const archivePath = path.join(root, 'camunda.zip');
+    git('archive', '--format=zip', '-o', archivePath, 'main');
+    const result = await fetchSpec({
+      archivePath,
+      ref: 'stable/8.8',
+      outputDir: path.join(root, 'out-zip'),
+      logger: silentLogger,
+    });
+    expect(fs.readFileSync(result.entryPath, 'utf8')).toBe('openapi: 3.0.3 # mono\n');
+  });
+
+  it('fails when the archive has no spec entry', async () => {
+    const archivePath = path.join(root, 'other.tar');
+    git('archive', '--format=tar', '-o', archivePath, 'main', '--', 'README.md');
+    await expect(
+      fetchSpec({
+        archivePath,
+        outputDir: path.join(root, 'out-none'),
+        logger: silentLogger,
+      })
+    ).rejects.toThrow(
+      new SpecEntryNotFoundError(
+        `Upstream spec entry ${DEFAULT_SPEC_DIR}/rest-api.yaml not found in ${archivePath}`,
+        `${archivePath}:${DEFAULT_SPEC_DIR}/rest-api.yaml`
+      )
+    );
+  });
+});
+
+describe('fetchSpec() lock file', () => {
+  it('records the resolved commit, ref, repo URL and spec hash', async () => {
+    const outputDir = path.join(root, 'out-lock');
+    const lockFile = path.join(root, 'lock', 'spec.lock.json');
+    const result = await fetchSpec({
+      repoPath: repo,
+      ref: 'main',
+      outputDir,
+      lockFile,
+      logger: silentLogger,
+    });
+    const expected = {
+      repoUrl: 'https://github.com/camunda/camunda.git',
+      ref: 'main',
+      commit: git('rev-parse', 'main').trim(),
+      specDir: DEFAULT_SPEC_DIR,
+      specHash: hashDirectoryTree(outputDir),
+    };
+    expect(result.lock).toEqual(expected);
+    expect(JSON.parse(fs.readFileSync(lockFile, 'utf8'))).toEqual(expected);
+  });
+
+  it('fetches the pinned commit when locked, even after the ref moved', async () => {
+    const lockFile = path.join(root, 'pinned.lock.json');
+    await fetchSpec({
+      repoPath: repo,
+      ref: 'stable/8.9',
+      outputDir: path.join(root, 'out-pin-1'),
+      lockFile,
+      logger: silentLogger,
+    });
+    const lockBefore = fs.readFileSync(lockFile, 'utf8');
+
+    git('checkout', '-q', 'stable/8.9');
+    git('commit', '-q', '-am', 'v2');
+    git('checkout', '-q', 'main');
+
+    const result = await fetchSpec({
+      repoPath: repo,
+      outputDir: path.join(root, 'out-pin-2'),
+      lockFile,
+      locked: true,
+      logger: silentLogger,
+    });
+    expect(result.lock?.ref).toBe('stable/8.9');
+    expect(fs.readFileSync(result.entryPath, 'utf8')).toBe('openapi: 3.0.3 # v1\n');
+    expect(fs.readFileSync(lockFile, 'utf8')).toBe(lockBefore);
+  });
+
+  it('fails when the fetched tree does not match the locked hash', async () => {
+    const lockFile = path.join(root, 'tampered.lock.json');
+    const outputDir = path.join(root, 'out-tampered');
+    await fetchSpec({ repoPath: repo, outputDir, lockFile, logger: silentLogger });
+    const lock = JSON.parse(fs.readFileSync(lockFile, 'utf8'));
+    fs.writeFileSync(lockFile, JSON.stringify({ ...lock, specHash: 'sha256:0' }));
+
+    await expect(
+      fetchSpec({ repoPath: repo, outputDir, lockFile, locked: true, logger: silentLogger })
+    ).rejects.toThrow(
+      `Fetched spec tree hash ${lock.specHash} does not match ${lockFile} (sha256:0, commit ${lock.commit})`
+    );
+    // The previous fetch is left in place.
+    expect(hashDirectoryTree(outputDir)).toBe(lock.specHash);
+  });
+
+  it('fails when a different ref is requested while locked', async () => {
+    const lockFile = path.join(root, 'ref.lock.json');
+    await fetchSpec({
+      repoPath: repo,
+      outputDir: path.join(root, 'out-ref'),
+      lockFile,
+      logger: silentLogger,
+    });
+    await expect(
+      fetchSpec({
+        repoPath: repo,
+        ref: 'stable/8.9',
+        outputDir: path.join(root, 'out-ref'),
+        lockFile,
+        locked: true,
+      })
+    ).rejects.toThrow(
+      `ref "stable/8.9" does not match the ref locked in ${lockFile} ("main")`
+    );
+  });
+});
+
+it('rejects repoPath together with archivePath', async () => {
+  await expect(
+    fetchSpec({ repoPath: repo, archivePath: 'x.zip', outputDir: path.join(root, 'x') })
+  ).rejects.toThrow('repoPath and archivePath are mutually exclusive');
+});
+
+describe('fetchSpec() clone', () => {
+  const warnings: string[] = [];
+  const logger: Logger = { ...silentLogger, warn: (m) => warnings.push(m) };
+
+  it('streams git progress and records the cloned commit', async () => {
+    const progress: FetchProgress[] = [];
+    const result = await fetchSpec({
+      repoUrl: `file://${repo}`,
+      ref: 'main',
+      outputDir: path.join(root, 'out-clone'),
+      logger: silentLogger,
+      onProgress: (p) => progress.push(p),
+    });
+    expect(fs.readFileSync(result.entryPath, 'utf8')).toBe('openapi: 3.0.3 # v1\n');
+    expect(result.lock?.commit).toBe(git('rev-parse', 'main').trim());
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress[0]).toMatchObject({ command: 'git clone', attempt: 1 });
+  });
+
+  it('retries a failing clone with backoff, then gives up', async () => {
+    warnings.length = 0;
+    const fetching = fetchSpec({
+      repoUrl: `file://${path.join(root, 'no-such-repo')}`,
+      outputDir: path.join(root, 'out-retry'),
+      retries: 2,
+      retryDelayMs: 1,
+      logger,
+    });
+    await expect(fetching).rejects.toBeInstanceOf(FetchCommandError);
+    await expect(fetching).rejects.toThrow(/^git clone .* failed \(exit code 128\): fatal: /);
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toMatch(/\(attempt 1\/3\); retrying in 1 ms$/);
+    expect(warnings[1]).toMatch(/\(attempt 2\/3\); retrying in 2 ms$/);
+  });
+
+  it('does not retry a missing branch', async () => {
+    warnings.length = 0;
+    await expect(
+      fetchSpec({
+        repoUrl: `file://${repo}`,
+        ref: 'stable/9.9',
+        outputDir: path.join(root, 'out-no-branch'),
+        retryDelayMs: 1,
+        logger,
+      })
+    ).rejects.toBeInstanceOf(RefNotFoundError);
+    expect(warnings).toEqual([]);
+  });
+
+  it('stops a command that exceeds the timeout', async () => {
+    const fetching = fetchSpec({
+      repoUrl: `file://${repo}`,
+      outputDir: path.join(root, 'out-timeout'),
+      timeoutMs: 1,
+      retries: 0,
+      logger: silentLogger,
+    });
+    await expect(fetching).rejects.toThrow('git clone timed out after 1 ms');
+    await expect(fetching).rejects.toMatchObject({ timedOut: true });
+  });
+
+  it('fails with GitUnavailableError when git is not on PATH', async () => {
+    const pathBefore = process.env['PATH'];
+    process.env['PATH'] = path.join(root, 'empty-path');
+    try {
+      await expect(
+        fetchSpec({ outputDir: path.join(root, 'out-no-git'), logger: silentLogger })
+      ).rejects.toBeInstanceOf(GitUnavailableError);
+    } finally {
+      process.env['PATH'] = pathBefore;
+    }
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for the pluggable logger (`logger` option, `createConsoleLogger`).
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { createConsoleLogger, type Logger } from '../src/logger.js';
+
+function writeSpec(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-logger-'));
+  fs.writeFileSync(
+    path.join(dir, 'rest-api.yaml'),
+    `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /jobs:
+    get:
+      operationId: getJobs
+      responses:
+        '200':
+          description: OK
+components:
+  schemas:
+    Widget:
+      type: object
+`
+  );
+  return dir;
+}
+
+function captureLogger(): Logger & { lines: string[] } {
+  const lines: string[] = [];
+  return {
+    lines,
+    debug: (m) => lines.push(`debug ${m}`),
+    info: (m) => lines.push(`info ${m}`),
+    warn: (m) => lines.push(`warn ${m}`),
+    error: (m) => lines.push(`error ${m}`),
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('bundle() logger option', () => {
+  it('sends all output to the given logger instead of the console', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const logger = captureLogger();
+    await bundle({
+      specDir: writeSpec(),
+      logger,
+      manualOverrides: { '#/paths/~1nope/get/schema': 'Widget' },
+    });
+    expect(log).not.toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+    expect(logger.lines).toContainEqual(
+      expect.stringMatching(/^warn 1 manual override\(s\) never matched/)
+    );
+    expect(logger.lines.some((l) => /^debug Step parse: \d+ ms$/.test(l))).toBe(
+      true
+    );
+  });
+});
+
+describe('createConsoleLogger', () => {
+  it('prints prefixed text lines at info level and above by default', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const logger = createConsoleLogger();
+    logger.debug('hidden');
+    logger.info('hello');
+    logger.warn('careful');
+    expect(log.mock.calls).toEqual([['[camunda-schema-bundler] hello']]);
+    expect(warn.mock.calls).toEqual([
+      ['[camunda-schema-bundler] WARNING: careful'],
+    ]);
+  });
+
+  it('drops messages below the configured level', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const logger = createConsoleLogger({ level: 'warn' });
+    logger.info('hidden');
+    logger.warn('shown');
+    expect(log).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps stdout free with stderr: true', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    createConsoleLogger({ stderr: true }).info('progress');
+    expect(log).not.toHaveBeenCalled();
+    expect(error.mock.calls).toEqual([['[camunda-schema-bundler] progress']]);
+  });
+
+  it('prints one JSON object per line in json format', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    createConsoleLogger({ format: 'json' }).error('boom');
+    expect(JSON.parse(error.mock.calls[0][0])).toEqual({
+      level: 'error',
+      message: 'boom',
+    });
+  });
+});
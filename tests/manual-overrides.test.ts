@@ -0,0 +1,152 @@
+/**
+ * Tests for user-supplied manual ref overrides (`manualOverrides` / `--overrides`).
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { readOverridesFile } from '../src/overrides.js';
+
+// Two operations share one external schema, so SwaggerParser inlines it at
+// the first site and points the second at it with this path-local $ref.
+const sharedRef =
+  '#/paths/~1a/get/responses/200/content/application~1json/schema';
+
+function writeSpec(thing = { name: 'id', type: 'string' }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-overrides-'));
+  const op = (id: string) => `    get:
+      operationId: ${id}
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: 'thing.yaml#/Thing'
+`;
+  fs.writeFileSync(
+    path.join(dir, 'rest-api.yaml'),
+    `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /a:
+${op('getA')}  /b:
+${op('getB')}components:
+  schemas:
+    Widget:
+      type: object
+      properties:
+        name:
+          type: string
+`
+  );
+  fs.writeFileSync(
+    path.join(dir, 'thing.yaml'),
+    `Thing:
+  type: object
+  properties:
+    ${thing.name}:
+      type: ${thing.type}
+`
+  );
+  return dir;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('bundle() manual overrides', () => {
+  it('rewrites a matching path-local ref to the named component', async () => {
+    const result = await bundle({
+      specDir: writeSpec(),
+      manualOverrides: { [sharedRef]: 'Widget' },
+    });
+    const paths = result.spec['paths'] as Record<
+      string,
+      { get: { responses: Record<string, { content: Record<string, { schema: unknown }> }> } }
+    >;
+    expect(
+      paths['/b'].get.responses['200'].content['application/json'].schema
+    ).toEqual({ $ref: '#/components/schemas/Widget' });
+  });
+
+  it('fails when an override targets a schema that does not exist', async () => {
+    await expect(
+      bundle({
+        specDir: writeSpec(),
+        manualOverrides: { [sharedRef]: 'Wdget' },
+      })
+    ).rejects.toThrow(
+      `1 manual override(s) target a schema that does not exist in components.schemas:\n  ${sharedRef} -> Wdget`
+    );
+  });
+
+  it('warns about overrides that never matched a ref', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await bundle({
+      specDir: writeSpec(),
+      manualOverrides: { '#/paths/~1nope/get/schema': 'Widget' },
+    });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        '1 manual override(s) never matched a path-local $ref (stale or mistyped?):\n  #/paths/~1nope/get/schema'
+      )
+    );
+  });
+
+  it('counts an override as matched when its ref already resolves to a component', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Thing has Widget's shape, so signature matching rewrites the shared ref first.
+    const result = await bundle({
+      specDir: writeSpec({ name: 'name', type: 'string' }),
+      manualOverrides: { [sharedRef]: 'Widget' },
+    });
+    const paths = result.spec['paths'] as Record<
+      string,
+      { get: { responses: Record<string, { content: Record<string, { schema: unknown }> }> } }
+    >;
+    expect(
+      paths['/b'].get.responses['200'].content['application/json'].schema
+    ).toEqual({ $ref: '#/components/schemas/Widget' });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('does not warn about unmatched built-in overrides', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await bundle({ specDir: writeSpec() });
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
+
+describe('readOverridesFile', () => {
+  function write(content: string): string {
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-overrides-file-')),
+      'overrides.yaml'
+    );
+    fs.writeFileSync(file, content, 'utf8');
+    return file;
+  }
+
+  it('reads a YAML map', () => {
+    expect(readOverridesFile(write(`'${sharedRef}': Widget\n`))).toEqual({
+      [sharedRef]: 'Widget',
+    });
+  });
+
+  it('rejects non-string targets', () => {
+    expect(() => readOverridesFile(write(`'${sharedRef}': [Widget]\n`))).toThrow(
+      'expected a map of path-local $ref to component schema name'
+    );
+  });
+
+  it('rejects keys that are not path-local refs', () => {
+    expect(() =>
+      readOverridesFile(write(`'#/components/schemas/A': Widget\n`))
+    ).toThrow('override key "#/components/schemas/A" is not a path-local $ref');
+  });
+});
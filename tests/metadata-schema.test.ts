@@ -0,0 +1,129 @@
+/**
+ * Tests for the spec-metadata.json JSON Schema and IR validation.
+ */
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { silentLogger } from '../src/logger.js';
+import { SPEC_METADATA_SCHEMA } from '../src/metadata-schema.js';
+import type { SpecMetadata } from '../src/types.js';
+import { validateSpecMetadata } from '../src/validate.js';
+import { generateMetadataSchema } from '../scripts/generate-metadata-schema.mjs';
+
+function writeSpec(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-metadata-schema-'));
+  fs.writeFileSync(
+    path.join(dir, 'rest-api.yaml'),
+    `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /jobs/{jobKey}:
+    get:
+      operationId: getJob
+      summary: Get a job
+      parameters:
+        - name: jobKey
+          in: path
+          required: true
+          schema:
+            $ref: '#/components/schemas/JobKey'
+      responses:
+        '200':
+          description: OK
+components:
+  schemas:
+    JobKey:
+      type: string
+      x-semantic-type: JobKey
+      pattern: '^-?[0-9]+$'
+`
+  );
+  return dir;
+}
+
+describe('SPEC_METADATA_SCHEMA', () => {
+  it('is up to date with the SpecMetadata types (npm run generate:metadata-schema)', () => {
+    expect(SPEC_METADATA_SCHEMA).toEqual(generateMetadataSchema());
+  });
+});
+
+describe('validateSpecMetadata', () => {
+  it('accepts the metadata of a bundle, including custom sections', async () => {
+    const { metadata } = await bundle({
+      specDir: writeSpec(),
+      logger: silentLogger,
+      metadataExtractors: [{ name: 'custom', extract: () => [{ any: 'shape' }] }],
+    });
+    expect(metadata.semanticKeys).toHaveLength(1);
+    expect(validateSpecMetadata(metadata)).toEqual([]);
+  });
+
+  it('rejects unknown top-level sections and integrity counters', async () => {
+    const { metadata } = await bundle({ specDir: writeSpec(), logger: silentLogger });
+    const broken = {
+      ...metadata,
+      custom: [],
+      integrity: { ...metadata.integrity, totalCustom: 0 },
+    } as SpecMetadata;
+    expect(validateSpecMetadata(broken)).toEqual([
+      {
+        pointer: '#',
+        message: 'must NOT have additional properties "custom"',
+      },
+      {
+        pointer: '#/integrity',
+        message: 'must NOT have additional properties "totalCustom"',
+      },
+    ]);
+  });
+
+  it('reports each issue with its JSON pointer', async () => {
+    const { metadata } = await bundle({ specDir: writeSpec(), logger: silentLogger });
+    const broken = structuredClone(metadata) as unknown as Record<
+      string,
+      Record<string, unknown>[]
+    >;
+    delete broken['operations'][0]['operationId'];
+    broken['semanticKeys'][0]['category'] = 'bogus';
+    broken['unions'].push({ name: 'U', kind: 'union-wrapper', branches: [], stableId: 'u', extra: 1 });
+    expect(validateSpecMetadata(broken as unknown as SpecMetadata)).toEqual([
+      {
+        pointer: '#/semanticKeys/0/category',
+        message: 'must be equal to one of the allowed values',
+      },
+      {
+        pointer: '#/unions/0',
+        message: 'must NOT have additional properties "extra"',
+      },
+      {
+        pointer: '#/operations/0',
+        message: "must have required property 'operationId'",
+      },
+    ]);
+  });
+
+  it('fails the bundle when the produced metadata is invalid', async () => {
+    await expect(
+      bundle({
+        specDir: writeSpec(),
+        logger: silentLogger,
+        plugins: [
+          {
+            name: 'numeric-summary',
+            beforeMetadata({ spec }) {
+              const paths = spec['paths'] as Record<string, { get: Record<string, unknown> }>;
+              paths['/jobs/{jobKey}'].get['summary'] = 42;
+            },
+          },
+        ],
+      })
+    ).rejects.toThrow(
+      'Metadata IR does not match the spec-metadata.json schema (1 issue(s)):\n' +
+        '  #/operations/0/summary: must be string'
+    );
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { extractMetadata } from '../src/metadata.js';
+import { extractMetadata, validateMetadataExtractors } from '../src/metadata.js';
+import type { MetadataExtractor } from '../src/types.js';
 
 describe('extractMetadata', () => {
   const schemas: Record<string, unknown> = {
@@ -782,3 +783,74 @@ describe('extractMetadata: non-string semantic keys are excluded', () => {
     expect(metadata.integrity.totalSemanticKeys).toBe(2);
   });
 });
+
+describe('extractMetadata: custom extractors', () => {
+  const schemas: Record<string, unknown> = {
+    Job: { type: 'object', 'x-sdk-hint': 'job' },
+    User: { type: 'object' },
+    Tenant: { type: 'object', 'x-sdk-hint': 'tenant' },
+  };
+  const sdkHints: MetadataExtractor<{ schema: string; hint: string }> = {
+    name: 'sdkHints',
+    extract: ({ schemas }) =>
+      Object.entries(schemas)
+        .filter(([, s]) => (s as Record<string, unknown>)['x-sdk-hint'])
+        .map(([schema, s]) => ({
+          schema,
+          hint: (s as Record<string, string>)['x-sdk-hint'],
+        })),
+  };
+
+  it('adds an extensions section and an integrity counter per extractor', () => {
+    const metadata = extractMetadata(
+      { paths: {}, components: { schemas } },
+      schemas,
+      'hash',
+      undefined,
+      [sdkHints]
+    );
+    expect(metadata.extensions).toEqual({
+      sdkHints: [
+        { schema: 'Job', hint: 'job' },
+        { schema: 'Tenant', hint: 'tenant' },
+      ],
+    });
+    expect(metadata.integrity.extensions).toEqual({ sdkHints: 2 });
+    expect(Object.keys(metadata).slice(-2)).toEqual(['extensions', 'integrity']);
+  });
+
+  it('omits the extensions sections without extractors', () => {
+    const metadata = extractMetadata({ paths: {} }, {}, 'hash');
+    expect(metadata).not.toHaveProperty('extensions');
+    expect(metadata.integrity).not.toHaveProperty('extensions');
+  });
+
+  it('keeps built-in sections and counters apart from extractors of the same name', () => {
+    const deprecated = { enum: ['OLD'], 'x-deprecated-enum-members': [{ name: 'OLD' }] };
+    const metadata = extractMetadata({ paths: {} }, { State: deprecated }, 'hash', undefined, [
+      { name: 'deprecatedEnumSchemas', extract: () => [1, 2, 3] },
+      { name: 'unions', extract: () => [] },
+    ]);
+    expect(metadata.integrity.totalDeprecatedEnumSchemas).toBe(1);
+    expect(metadata.integrity.extensions).toEqual({ deprecatedEnumSchemas: 3, unions: 0 });
+    expect(metadata.extensions?.['unions']).toEqual([]);
+    expect(metadata.unions).toEqual([]);
+  });
+
+  it('rejects extractors that do not return an array', () => {
+    expect(() =>
+      extractMetadata({ paths: {} }, {}, 'hash', undefined, [
+        { name: 'broken', extract: () => ({}) as unknown[] },
+      ])
+    ).toThrow('Metadata extractor "broken" must return an array');
+  });
+
+  it('rejects duplicate and non-camelCase names', () => {
+    expect(() => validateMetadataExtractors([sdkHints, sdkHints])).toThrow(
+      'Duplicate metadata extractor name: "sdkHints"'
+    );
+    expect(() =>
+      validateMetadataExtractors([{ ...sdkHints, name: 'sdk-hints' }])
+    ).toThrow('Metadata extractor name "sdk-hints" is not a camelCase identifier');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for `outputSpecFormat` (JSON vs YAML serialization of the bundled spec).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { bundle } from '../src/bundle.js';
+import { serializeSpecYaml } from '../src/outputs.js';
+
+const ENTRY_YAML = `
+openapi: '3.0.3'
+info:
+  title: Camunda REST API
+  version: '8.10'
+  description: A description long enough that a line-width limit would have folded it onto several lines in the YAML output.
+paths:
+  /things:
+    get:
+      operationId: listThings
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Thing'
+components:
+  schemas:
+    Thing:
+      type: object
+      required: [name, id]
+      properties:
+        name:
+          type: string
+        id:
+          type: string
+`.trimStart();
+
+describe('outputSpecFormat', () => {
+  let specDir: string;
+  let outDir: string;
+
+  beforeAll(() => {
+    specDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-format-'));
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-format-out-'));
+    fs.writeFileSync(path.join(specDir, 'rest-api.yaml'), ENTRY_YAML, 'utf8');
+  });
+
+  it('writes JSON by default', async () => {
+    const outputSpec = path.join(outDir, 'default.json');
+    const result = await bundle({ specDir, outputSpec });
+    expect(fs.readFileSync(outputSpec, 'utf8')).toBe(
+      JSON.stringify(result.spec, null, 2) + '\n'
+    );
+  });
+
+  it('writes YAML that round-trips to the bundled spec with the same key order', async () => {
+    const outputSpec = path.join(outDir, 'spec.yaml');
+    const result = await bundle({ specDir, outputSpec, outputSpecFormat: 'yaml' });
+    const parsed = parseYaml(fs.readFileSync(outputSpec, 'utf8'));
+
+    expect(parsed).toEqual(result.spec);
+    expect(JSON.stringify(parsed)).toBe(JSON.stringify(result.spec));
+    // sortRequiredArrays() applies to the YAML output too.
+    expect(parsed.components.schemas.Thing.required).toEqual(['id', 'name']);
+  });
+
+  it('is byte-stable across runs', async () => {
+    const a = path.join(outDir, 'a.yaml');
+    const b = path.join(outDir, 'b.yaml');
+    await bundle({ specDir, outputSpec: a, outputSpecFormat: 'yaml' });
+    await bundle({ specDir, outputSpec: b, outputSpecFormat: 'yaml' });
+    expect(fs.readFileSync(a, 'utf8')).toBe(fs.readFileSync(b, 'utf8'));
+  });
+});
+
+describe('serializeSpecYaml', () => {
+  it('emits shared objects in full instead of anchors and aliases', () => {
+    const shared = { type: 'string' };
+    const yaml = serializeSpecYaml({ a: shared, b: shared });
+    expect(yaml).toBe('a:\n  type: string\nb:\n  type: string\n');
+  });
+
+  it('never folds long strings', () => {
+    const description = 'word '.repeat(40).trim();
+    expect(serializeSpecYaml({ description })).toBe(
+      `description: ${description}\n`
+    );
+  });
+});
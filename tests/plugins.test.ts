@@ -0,0 +1,127 @@
+/**
+ * Tests for pipeline plugin hooks (`plugins`).
+ */
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { silentLogger } from '../src/logger.js';
+import { PLUGIN_STAGES, type BundlerPlugin } from '../src/plugins.js';
+
+function writeSpec(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-plugins-'));
+  fs.writeFileSync(
+    path.join(dir, 'rest-api.yaml'),
+    `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /jobs:
+    get:
+      operationId: getJobs
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Job'
+components:
+  schemas:
+    Job:
+      type: object
+      properties:
+        jobKey:
+          type: string
+`
+  );
+  return dir;
+}
+
+describe('bundle() plugins', () => {
+  it('runs every hook once, in pipeline order', async () => {
+    const calls: string[] = [];
+    const plugin: BundlerPlugin = Object.fromEntries([
+      ['name', 'recorder'],
+      ...PLUGIN_STAGES.map((stage) => [stage, () => void calls.push(stage)]),
+    ]);
+    await bundle({ specDir: writeSpec(), plugins: [plugin], logger: silentLogger });
+    expect(calls).toEqual([...PLUGIN_STAGES]);
+  });
+
+  it('derives metadata from the transformed spec', async () => {
+    const result = await bundle({
+      specDir: writeSpec(),
+      logger: silentLogger,
+      plugins: [
+        {
+          name: 'add-endpoint',
+          beforeMetadata({ spec }) {
+            (spec['paths'] as Record<string, unknown>)['/users'] = {
+              get: {
+                operationId: 'getUsers',
+                responses: { '200': { description: 'OK' } },
+              },
+            };
+          },
+        },
+      ],
+    });
+    expect(result.stats.pathCount).toBe(2);
+    expect(result.metadata.operations.map((o) => o.operationId)).toContain(
+      'getUsers'
+    );
+  });
+
+  it('writes changes made before write', async () => {
+    const specDir = writeSpec();
+    const outputSpec = path.join(specDir, 'out', 'bundle.json');
+    await bundle({
+      specDir,
+      outputSpec,
+      logger: silentLogger,
+      plugins: [
+        {
+          name: 'hint',
+          beforeWrite({ schemas, result }) {
+            (schemas['Job'] as Record<string, unknown>)['x-hint'] =
+              result.metadata.integrity.totalOperations;
+          },
+        },
+      ],
+    });
+    const written = JSON.parse(fs.readFileSync(outputSpec, 'utf8'));
+    expect(written.components.schemas.Job['x-hint']).toBe(1);
+  });
+
+  it('names the plugin and stage when a hook throws', async () => {
+    await expect(
+      bundle({
+        specDir: writeSpec(),
+        logger: silentLogger,
+        plugins: [
+          {
+            name: 'broken',
+            afterAugment() {
+              throw new Error('nope');
+            },
+          },
+        ],
+      })
+    ).rejects.toThrow('Plugin "broken" failed in afterAugment: nope');
+  });
+
+  it('bypasses the bundle cache', async () => {
+    const specDir = writeSpec();
+    const cacheDir = path.join(specDir, '.cache');
+    let runs = 0;
+    const plugins: BundlerPlugin[] = [{ name: 'count', afterBundle: () => void runs++ }];
+    await bundle({ specDir, cacheDir, plugins, logger: silentLogger });
+    const second = await bundle({ specDir, cacheDir, plugins, logger: silentLogger });
+    expect(runs).toBe(2);
+    expect(second.stats.cacheHit).toBeUndefined();
+    expect(fs.existsSync(cacheDir)).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for multi-profile bundling (`profiles`).
+ */
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { bundle } from '../src/bundle.js';
+import { readProfilesFile, validateProfiles } from '../src/profiles.js';
+import type { BundleProfile } from '../src/types.js';
+
+let specDir: string;
+
+beforeAll(() => {
+  specDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-profiles-'));
+  const op = (id: string, tag: string) => `      operationId: ${id}
+      tags: ['${tag}']
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/${tag}'
+`;
+  fs.writeFileSync(
+    path.join(specDir, 'rest-api.yaml'),
+    `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /jobs:
+    get:
+${op('getJobs', 'Job')}  /users:
+    get:
+${op('getUsers', 'User')}components:
+  schemas:
+    Job:
+      type: object
+      properties:
+        b:
+          type: string
+        a:
+          type: string
+    User:
+      type: object
+`
+  );
+});
+
+describe('bundle({ profiles })', () => {
+  it('parses once and finishes each profile like a standalone bundle', async () => {
+    const parse = vi.spyOn(SwaggerParser, 'bundle');
+    try {
+      const result = await bundle({
+        specDir,
+        profiles: [
+          { name: 'jobs', includeTags: ['Job'] },
+          { name: 'canonical', canonicalOrder: true },
+        ],
+      });
+      expect(parse).toHaveBeenCalledTimes(1);
+
+      expect(Object.keys(result.profiles!)).toEqual(['jobs', 'canonical']);
+      const standaloneJobs = await bundle({ specDir, includeTags: ['Job'] });
+      expect(result.profiles!.jobs.spec).toEqual(standaloneJobs.spec);
+      expect(result.profiles!.jobs.metadata).toEqual(standaloneJobs.metadata);
+
+      // Profiles do not leak into each other or into the base result.
+      expect(Object.keys(result.spec.paths as object)).toEqual(['/jobs', '/users']);
+      const job = (result.profiles!.canonical.spec.components as {
+        schemas: { Job: { properties: object } };
+      }).schemas.Job;
+      expect(Object.keys(job.properties)).toEqual(['a', 'b']);
+      expect(result.profiles!.canonical.profiles).toBeUndefined();
+    } finally {
+      parse.mockRestore();
+    }
+  });
+
+  it('writes each profile\'s own outputs and does not inherit output paths', async () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-profiles-out-'));
+    const base = path.join(outDir, 'rest-api.bundle.json');
+    const yaml = path.join(outDir, 'rest-api.bundle.yaml');
+    await bundle({
+      specDir,
+      outputSpec: base,
+      profiles: [
+        { name: 'yaml', outputSpec: yaml, outputSpecFormat: 'yaml' },
+        { name: 'nothing', includeTags: ['User'] },
+      ],
+    });
+    expect(fs.readdirSync(outDir).sort()).toEqual([
+      'rest-api.bundle.json',
+      'rest-api.bundle.yaml',
+    ]);
+    // The base output is not overwritten by the 'nothing' profile.
+    const spec = JSON.parse(fs.readFileSync(base, 'utf8'));
+    expect(Object.keys(spec.paths)).toEqual(['/jobs', '/users']);
+  });
+
+  it('rejects invalid profiles before bundling', async () => {
+    await expect(
+      bundle({
+        specDir,
+        profiles: [{ name: 'x', specDir: '/elsewhere' } as BundleProfile],
+      })
+    ).rejects.toThrow(/Profile "x" sets unsupported option\(s\): specDir/);
+  });
+});
+
+describe('validateProfiles', () => {
+  it('requires unique names', () => {
+    expect(() => validateProfiles([{ name: 'a' }, { name: 'a' }])).toThrow(
+      'Duplicate profile name "a"'
+    );
+    expect(() => validateProfiles([{} as BundleProfile])).toThrow(
+      'Profile #1 is missing a "name"'
+    );
+  });
+
+  it('rejects option values of the wrong type', () => {
+    expect(() =>
+      validateProfiles([{ name: 'a', includeTags: 'Job' } as unknown as BundleProfile])
+    ).toThrow('Profile "a": "includeTags" must be a list of strings');
+    expect(() =>
+      validateProfiles([{ name: 'a', outputSpecFormat: 1 } as unknown as BundleProfile])
+    ).toThrow('Profile "a": "outputSpecFormat" must be one of json, yaml');
+    expect(() =>
+      validateProfiles([{ name: 'a', canonicalOrder: 'yes' } as unknown as BundleProfile])
+    ).toThrow('Profile "a": "canonicalOrder" must be true or false');
+  });
+});
+
+describe('readProfilesFile', () => {
+  it('accepts a YAML list or an object with a profiles list', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-profiles-file-'));
+    const list = path.join(dir, 'list.yaml');
+    fs.writeFileSync(
+      list,
+      '- name: csharp\n  outputSpec: out/rest-api.deref.bundle.json\n  dereferencePathLocalRefs: true\n'
+    );
+    const wrapped = path.join(dir, 'wrapped.json');
+    fs.writeFileSync(
+      wrapped,
+      JSON.stringify({
+        profiles: [
+          {
+            name: 'csharp',
+            outputSpec: 'out/rest-api.deref.bundle.json',
+            dereferencePathLocalRefs: true,
+          },
+        ],
+      })
+    );
+    const expected = [
+      {
+        name: 'csharp',
+        outputSpec: 'out/rest-api.deref.bundle.json',
+        dereferencePathLocalRefs: true,
+      },
+    ];
+    expect(readProfilesFile(list)).toEqual(expected);
+    expect(readProfilesFile(wrapped)).toEqual(expected);
+  });
+
+  it('rejects other shapes', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-profiles-file-'));
+    const file = path.join(dir, 'bad.yaml');
+    fs.writeFileSync(file, 'name: csharp\n');
+    expect(() => readProfilesFile(file)).toThrow(/expected a list of profiles/);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for bundle provenance (`provenance`): `info['x-camunda-bundle']` in
+ * the bundled spec and `provenance` in the metadata IR.
+ */
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { silentLogger } from '../src/logger.js';
+import { validateSpecMetadata } from '../src/validate.js';
+import { BUNDLER_VERSION } from '../src/version.js';
+
+function writeSpec(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-provenance-'));
+  fs.writeFileSync(
+    path.join(dir, 'rest-api.yaml'),
+    `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /jobs:
+    get:
+      operationId: getJobs
+      tags: [Job]
+      responses:
+        '200':
+          description: OK
+`
+  );
+  return dir;
+}
+
+describe('bundle provenance', () => {
+  it('is not embedded by default', async () => {
+    const result = await bundle({ specDir: writeSpec(), logger: silentLogger });
+    expect(result.spec['info']).not.toHaveProperty('x-camunda-bundle');
+    expect(result.metadata).not.toHaveProperty('provenance');
+  });
+
+  it('embeds the source and effective options in the spec and metadata', async () => {
+    const specDir = writeSpec();
+    const outputMetadata = path.join(specDir, 'out', 'spec-metadata.json');
+    const result = await bundle({
+      specDir,
+      ref: 'stable/8.9',
+      commit: 'abc123',
+      repoUrl: 'https://example.com/camunda.git',
+      dereferencePathLocalRefs: true,
+      includeTags: ['Job'],
+      provenance: true,
+      outputMetadata,
+      logger: silentLogger,
+    });
+
+    const expected = {
+      ref: 'stable/8.9',
+      commit: 'abc123',
+      repoUrl: 'https://example.com/camunda.git',
+      specHash: result.metadata.specHash,
+      bundlerVersion: BUNDLER_VERSION,
+      options: {
+        entryFile: 'rest-api.yaml',
+        dereferencePathLocalRefs: true,
+        allowPathLocalLikeRefs: false,
+        allowPathLocalParameterRefs: false,
+        allowAmbiguousInlines: false,
+        allowDanglingRefs: false,
+        pruneUnusedSchemas: false,
+        canonicalOrder: false,
+        validate: 'off',
+        includeTags: ['Job'],
+      },
+    };
+    expect((result.spec['info'] as Record<string, unknown>)['x-camunda-bundle']).toEqual(expected);
+    expect(result.metadata.provenance).toEqual(expected);
+    expect(validateSpecMetadata(result.metadata)).toEqual([]);
+
+    const written = JSON.parse(fs.readFileSync(outputMetadata, 'utf8'));
+    expect(Object.keys(written).indexOf('provenance')).toBe(
+      Object.keys(written).indexOf('specHash') + 1
+    );
+  });
+
+  it('names the profile and uses its options', async () => {
+    const result = await bundle({
+      specDir: writeSpec(),
+      provenance: true,
+      profiles: [{ name: 'sorted', canonicalOrder: true }],
+      logger: silentLogger,
+    });
+    const profile = result.profiles!['sorted'].metadata.provenance!;
+    expect(profile.profile).toBe('sorted');
+    expect(profile.options.canonicalOrder).toBe(true);
+    expect(result.metadata.provenance).not.toHaveProperty('profile');
+  });
+
+  it('is applied to cache hits without affecting the cache key', async () => {
+    const specDir = writeSpec();
+    const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-provenance-cache-'));
+    await bundle({ specDir, cacheDir, ref: 'main', logger: silentLogger });
+    const result = await bundle({
+      specDir,
+      cacheDir,
+      ref: 'main',
+      commit: 'def456',
+      provenance: true,
+      logger: silentLogger,
+    });
+    expect(result.stats.cacheHit).toBe(true);
+    expect(result.metadata.provenance?.commit).toBe('def456');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for unused component schema pruning (`pruneUnusedSchemas`).
+ */
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { findReachableSchemas } from '../src/helpers.js';
+
+describe('findReachableSchemas', () => {
+  it('follows $refs transitively from paths', () => {
+    const doc = {
+      paths: {
+        '/a': { get: { schema: { $ref: '#/components/schemas/A' } } },
+      },
+      components: {
+        schemas: {
+          A: { properties: { b: { $ref: '#/components/schemas/B' } } },
+          B: { items: { $ref: '#/components/schemas/C' } },
+          C: { type: 'string' },
+          Unused: { $ref: '#/components/schemas/AlsoUnused' },
+          AlsoUnused: { type: 'string' },
+        },
+      },
+    };
+    expect([...findReachableSchemas(doc)].sort()).toEqual(['A', 'B', 'C']);
+  });
+
+  it('follows refs into a schema, discriminator mappings and other buckets', () => {
+    const doc = {
+      paths: {
+        '/a': {
+          get: {
+            schema: { $ref: '#/components/schemas/Page/properties/items' },
+            responses: { '200': { $ref: '#/components/responses/Ok' } },
+          },
+        },
+      },
+      components: {
+        responses: {
+          Ok: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Result' } } } },
+        },
+        schemas: {
+          Page: { properties: { items: { type: 'array' } } },
+          Result: {
+            oneOf: [],
+            discriminator: {
+              propertyName: 'kind',
+              mapping: { x: '#/components/schemas/X' },
+            },
+          },
+          X: { type: 'object' },
+        },
+      },
+    };
+    expect([...findReachableSchemas(doc)].sort()).toEqual(['Page', 'Result', 'X']);
+  });
+
+  it('includes explicit roots and what they reference', () => {
+    const doc = {
+      paths: {},
+      components: {
+        schemas: {
+          Kept: { $ref: '#/components/schemas/Dep' },
+          Dep: { type: 'string' },
+          Other: { type: 'string' },
+        },
+      },
+    };
+    expect([...findReachableSchemas(doc, ['Kept', 'Nope'])].sort()).toEqual([
+      'Dep',
+      'Kept',
+    ]);
+  });
+});
+
+describe('bundle({ pruneUnusedSchemas })', () => {
+  function writeSpec(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-prune-'));
+    fs.writeFileSync(
+      path.join(dir, 'rest-api.yaml'),
+      `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /jobs:
+    get:
+      operationId: getJob
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Job'
+components:
+  schemas:
+    Job:
+      type: object
+      properties:
+        state:
+          $ref: '#/components/schemas/JobState'
+    JobState:
+      type: string
+      enum: [ACTIVE, DONE]
+    LongKey:
+      type: string
+      pattern: '^-?[0-9]+$'
+    TenantKey:
+      x-semantic-type: TenantKey
+      allOf:
+        - $ref: '#/components/schemas/LongKey'
+    Legacy:
+      type: object
+    Fixture:
+      type: string
+`
+    );
+    return dir;
+  }
+
+  it('keeps every schema by default', async () => {
+    const result = await bundle({ specDir: writeSpec() });
+    expect(result.stats.prunedSchemas).toBeUndefined();
+    expect(result.stats.schemaCount).toBe(6);
+  });
+
+  it('drops unreachable schemas but keeps semantic keys and their refs', async () => {
+    const result = await bundle({ specDir: writeSpec(), pruneUnusedSchemas: true });
+    expect(result.stats.prunedSchemas).toEqual(['Fixture', 'Legacy']);
+    const schemas = (result.spec.components as { schemas: object }).schemas;
+    expect(Object.keys(schemas).sort()).toEqual([
+      'Job',
+      'JobState',
+      'LongKey',
+      'TenantKey',
+    ]);
+    expect(result.stats.schemaCount).toBe(4);
+    expect(result.metadata.semanticKeys.map((k) => k.name)).toEqual(['TenantKey']);
+  });
+
+  it('honours keepSchemas', async () => {
+    const result = await bundle({
+      specDir: writeSpec(),
+      pruneUnusedSchemas: true,
+      keepSchemas: ['Fixture'],
+    });
+    expect(result.stats.prunedSchemas).toEqual(['Legacy']);
+  });
+});
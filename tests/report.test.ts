@@ -0,0 +1,115 @@
+/**
+ * Tests for the machine-readable bundle report (`report` / `outputReport`).
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { BUNDLER_VERSION } from '../src/version.js';
+
+function writeSpec(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-report-'));
+  fs.writeFileSync(
+    path.join(dir, 'rest-api.yaml'),
+    `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /jobs:
+    get:
+      operationId: getJobs
+      responses:
+        '200':
+          description: OK
+`
+  );
+  return dir;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('bundle report', () => {
+  it('describes the run', async () => {
+    const specDir = writeSpec();
+    const result = await bundle({ specDir, ref: 'stable/8.8' });
+    const { report } = result;
+
+    expect(report.bundlerVersion).toBe(BUNDLER_VERSION);
+    expect(report.ref).toBe('stable/8.8');
+    expect(report.specDir).toBe(specDir);
+    expect(report.specHash).toBe(result.metadata.specHash);
+    expect(report.stats).toEqual(result.stats);
+    expect(report.warnings).toEqual([]);
+    expect(Object.keys(report.timings)).toEqual([
+      'hash',
+      'parse',
+      'augment',
+      'normalize',
+      'promote',
+      'inline-parameter-refs',
+      'dedup',
+      'validate',
+      'metadata',
+    ]);
+  });
+
+  it('collects warnings', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-report-out-'));
+    const result = await bundle({
+      specDir: writeSpec(),
+      outputEndpointMap: path.join(outDir, 'endpoint-map.json'),
+    });
+    expect(result.report.warnings).toEqual([
+      expect.stringContaining('endpoint-map.json is deprecated'),
+    ]);
+  });
+
+  it('times only the cache lookup on a cache hit', async () => {
+    const specDir = writeSpec();
+    const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-report-cache-'));
+    await bundle({ specDir, cacheDir });
+    const result = await bundle({ specDir, cacheDir });
+    expect(result.report.stats.cacheHit).toBe(true);
+    expect(Object.keys(result.report.timings)).toEqual(['hash', 'cache-read']);
+  });
+
+  it('carries the cached run\'s warnings on a cache hit', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const specDir = writeSpec();
+    fs.appendFileSync(path.join(specDir, 'rest-api.yaml'), '      bogus: 1\n');
+    const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-report-cache-'));
+    const first = await bundle({ specDir, cacheDir, validate: 'warn' });
+    const second = await bundle({ specDir, cacheDir, validate: 'warn' });
+    expect(second.report.stats.cacheHit).toBe(true);
+    expect(first.report.warnings).toHaveLength(1);
+    expect(second.report.warnings).toEqual(first.report.warnings);
+  });
+
+  it('gives each profile its own report', async () => {
+    const result = await bundle({
+      specDir: writeSpec(),
+      profiles: [{ name: 'sorted', canonicalOrder: true }],
+    });
+    const profileReport = result.profiles!.sorted.report;
+    expect(profileReport.profile).toBe('sorted');
+    expect(profileReport.timings).toHaveProperty('parse');
+    expect(profileReport.timings).toHaveProperty('canonical-order');
+    expect(result.report.profile).toBeUndefined();
+  });
+
+  it('writes outputReport', async () => {
+    const outputReport = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-report-out-')),
+      'report.json'
+    );
+    const result = await bundle({ specDir: writeSpec(), outputReport });
+    expect(JSON.parse(fs.readFileSync(outputReport, 'utf8'))).toEqual(
+      JSON.parse(JSON.stringify(result.report))
+    );
+  });
+});
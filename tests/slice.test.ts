@@ -0,0 +1,199 @@
+/**
+ * Tests for per-tag / per-operation slicing (`includeTags`, `excludeTags`,
+ * `includeOperations`).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+
+let specDir: string;
+
+beforeAll(() => {
+  specDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-slice-'));
+  const op = (id: string, tag: string, schema: string) => `      operationId: ${id}
+      tags: ['${tag}']
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/${schema}'
+`;
+  fs.writeFileSync(
+    path.join(specDir, 'rest-api.yaml'),
+    `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+tags:
+  - name: Process instance
+  - name: Process definition
+  - name: Job
+paths:
+  /process-instances/{key}:
+    get:
+${op('getProcessInstance', 'Process instance', 'ProcessInstance')}    delete:
+${op('deleteProcessInstance', 'Process instance', 'ProcessInstance')}  /process-definitions/{key}:
+    get:
+${op('getProcessDefinition', 'Process definition', 'ProcessDefinition')}  /jobs/{key}:
+    get:
+${op('getJob', 'Job', 'Job')}components:
+  schemas:
+    ProcessInstance:
+      type: object
+      properties:
+        processDefinitionKey:
+          $ref: '#/components/schemas/ProcessDefinitionKey'
+    ProcessDefinition:
+      type: object
+    Job:
+      type: object
+      properties:
+        jobKey:
+          $ref: '#/components/schemas/JobKey'
+    LongKey:
+      type: string
+    ProcessDefinitionKey:
+      x-semantic-type: ProcessDefinitionKey
+      allOf:
+        - $ref: '#/components/schemas/LongKey'
+    JobKey:
+      x-semantic-type: JobKey
+      allOf:
+        - $ref: '#/components/schemas/LongKey'
+`
+  );
+});
+
+function schemaNames(spec: Record<string, unknown>): string[] {
+  const components = spec.components as { schemas: Record<string, unknown> };
+  return Object.keys(components.schemas).sort();
+}
+
+describe('bundle() slicing', () => {
+  it('keeps only operations with an included tag and what they reach', async () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-slice-out-'));
+    const outputEndpointMap = path.join(outDir, 'endpoint-map.json');
+    const result = await bundle({
+      specDir,
+      includeTags: ['Process instance', 'Process definition'],
+      outputEndpointMap,
+    });
+
+    expect(Object.keys(result.spec.paths as object)).toEqual([
+      '/process-instances/{key}',
+      '/process-definitions/{key}',
+    ]);
+    expect(result.stats.excludedOperationCount).toBe(1);
+    expect(schemaNames(result.spec)).toEqual([
+      'LongKey',
+      'ProcessDefinition',
+      'ProcessDefinitionKey',
+      'ProcessInstance',
+    ]);
+    expect(result.stats.prunedSchemas).toEqual(['Job', 'JobKey']);
+    expect((result.spec.tags as { name: string }[]).map((t) => t.name)).toEqual([
+      'Process instance',
+      'Process definition',
+    ]);
+
+    // The metadata IR and endpoint map describe only the slice.
+    expect(result.metadata.operations.map((o) => o.operationId).sort()).toEqual([
+      'deleteProcessInstance',
+      'getProcessDefinition',
+      'getProcessInstance',
+    ]);
+    expect(result.metadata.semanticKeys.map((k) => k.name)).toEqual([
+      'ProcessDefinitionKey',
+    ]);
+    expect(Object.keys(result.endpointMap)).not.toContain('GET /jobs/{key}');
+    expect(
+      Object.keys(JSON.parse(fs.readFileSync(outputEndpointMap, 'utf8')))
+    ).not.toContain('GET /jobs/{key}');
+  });
+
+  it('drops operations with an excluded tag', async () => {
+    const result = await bundle({ specDir, excludeTags: ['Process instance'] });
+    expect(Object.keys(result.spec.paths as object)).toEqual([
+      '/process-definitions/{key}',
+      '/jobs/{key}',
+    ]);
+    expect(result.stats.excludedOperationCount).toBe(2);
+  });
+
+  it('combines includeOperations with includeTags', async () => {
+    const result = await bundle({
+      specDir,
+      includeTags: ['Job'],
+      includeOperations: ['getProcessInstance'],
+    });
+    expect(result.metadata.operations.map((o) => o.operationId).sort()).toEqual([
+      'getJob',
+      'getProcessInstance',
+    ]);
+    const pathItem = (result.spec.paths as Record<string, object>)[
+      '/process-instances/{key}'
+    ];
+    expect(Object.keys(pathItem)).toEqual(['get']);
+  });
+
+  it('inlines path-local refs into removed operations', async () => {
+    // Both operations share an external schema that is not a component, so
+    // SwaggerParser inlines it under /a and points /b at it with a
+    // path-local $ref.
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-slice-shared-'));
+    const op = (id: string, tag: string) => `    get:
+      operationId: ${id}
+      tags: ['${tag}']
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: 'thing.yaml#/Thing'
+`;
+    fs.writeFileSync(
+      path.join(dir, 'rest-api.yaml'),
+      `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /a:
+${op('getA', 'A')}  /b:
+${op('getB', 'B')}`
+    );
+    fs.writeFileSync(
+      path.join(dir, 'thing.yaml'),
+      `Thing:
+  type: object
+  properties:
+    id:
+      type: string
+`
+    );
+
+    const result = await bundle({ specDir: dir, includeTags: ['B'] });
+    const paths = result.spec.paths as Record<
+      string,
+      { get: { responses: Record<string, { content: Record<string, { schema: unknown }> }> } }
+    >;
+    expect(Object.keys(paths)).toEqual(['/b']);
+    expect(paths['/b'].get.responses['200'].content['application/json'].schema).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string' } },
+    });
+    expect(result.stats.danglingRefCount).toBe(0);
+  });
+
+  it('does not slice or prune by default', async () => {
+    const result = await bundle({ specDir });
+    expect(result.stats.excludedOperationCount).toBeUndefined();
+    expect(result.stats.prunedSchemas).toBeUndefined();
+    expect(schemaNames(result.spec)).toHaveLength(6);
+  });
+});
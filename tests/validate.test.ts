@@ -0,0 +1,134 @@
+/**
+ * Tests for OpenAPI validation of the bundled output (`validate` option).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bundle } from '../src/bundle.js';
+import { validateBundledSpec } from '../src/validate.js';
+
+function writeSpec(operationExtra = ''): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-validate-'));
+  fs.writeFileSync(
+    path.join(dir, 'rest-api.yaml'),
+    `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+  /things:
+    get:
+      operationId: listThings
+${operationExtra}      responses:
+        '200':
+          description: OK
+`
+  );
+  return dir;
+}
+
+describe('validateBundledSpec', () => {
+  it('returns no issues for a valid document', async () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 't', version: '1' },
+      paths: {},
+    };
+    expect(await validateBundledSpec(spec)).toEqual([]);
+  });
+
+  it('reports schema violations with JSON pointers', async () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 't', version: '1' },
+      paths: {
+        '/jobs': { get: { responses: {} } },
+      },
+      components: {
+        schemas: { S: { type: 'object', required: 'id' } },
+      },
+    };
+    const issues = await validateBundledSpec(spec);
+    expect(issues).toContainEqual({
+      pointer: '#/paths/~1jobs/get/responses',
+      message: 'must NOT have fewer than 1 properties',
+    });
+    expect(issues).toContainEqual({
+      pointer: '#/components/schemas/S/required',
+      message: 'must be array',
+    });
+  });
+
+  it('reports unresolvable documents against the root', async () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 't', version: '1' },
+      paths: {
+        '/jobs': {
+          get: {
+            responses: {
+              '200': {
+                description: 'ok',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/Missing' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+    const issues = await validateBundledSpec(spec);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].pointer).toBe('#');
+  });
+
+  it('does not mutate its input', async () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 't', version: '1' },
+      paths: {},
+      components: { schemas: { A: { $ref: '#/components/schemas/B' }, B: { type: 'string' } } },
+    };
+    const before = structuredClone(spec);
+    await validateBundledSpec(spec);
+    expect(spec).toEqual(before);
+  });
+});
+
+describe('bundle({ validate })', () => {
+  it('does not validate by default', async () => {
+    const result = await bundle({ specDir: writeSpec('      bogus: 1\n') });
+    expect(result.stats.validationIssueCount).toBeUndefined();
+  });
+
+  it('warns and records the issue count in warn mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const result = await bundle({
+        specDir: writeSpec('      bogus: 1\n'),
+        validate: 'warn',
+      });
+      expect(result.stats.validationIssueCount).toBe(1);
+      expect(warn.mock.calls[0][0]).toContain(
+        '#/paths/~1things/get: must NOT have additional properties'
+      );
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('throws in error mode', async () => {
+    await expect(
+      bundle({ specDir: writeSpec('      bogus: 1\n'), validate: 'error' })
+    ).rejects.toThrow(/failed OpenAPI validation with 1 issue/);
+  });
+
+  it('passes a valid bundle in error mode', async () => {
+    const result = await bundle({ specDir: writeSpec(), validate: 'error' });
+    expect(result.stats.validationIssueCount).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { watchBundle, formatStatsDelta } from '../src/watch.js';
+import type { BundleWatcher, WatchBundleEvent } from '../src/watch.js';
+
+function specYaml(paths: string[]): string {
+  return `openapi: '3.0.3'
+info:
+  title: t
+  version: '1.0.0'
+paths:
+${paths
+  .map(
+    (p) => `  ${p}:
+    get:
+      operationId: get${p.replace(/\W/g, '')}
+      responses:
+        '200':
+          description: ok
+`
+  )
+  .join('')}components:
+  schemas:
+    Thing:
+      type: object
+      properties:
+        id:
+          type: string
+`;
+}
+
+describe('watchBundle', () => {
+  let dir: string;
+  let specDir: string;
+  let outputSpec: string;
+  let watcher: BundleWatcher;
+  const events: WatchBundleEvent[] = [];
+  let waiter: ((e: WatchBundleEvent) => void) | undefined;
+
+  const nextEvent = () =>
+    new Promise<WatchBundleEvent>((resolve, reject) => {
+      const timeout = setTimeout(
+        () => reject(new Error('no bundle cycle within 5s')),
+        5_000
+      );
+      waiter = (e) => {
+        clearTimeout(timeout);
+        resolve(e);
+      };
+    });
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-watch-'));
+    specDir = path.join(dir, 'spec');
+    outputSpec = path.join(dir, 'out', 'rest-api.bundle.json');
+    fs.mkdirSync(specDir);
+    fs.writeFileSync(path.join(specDir, 'rest-api.yaml'), specYaml(['/a']));
+
+    watcher = watchBundle({
+      specDir,
+      outputSpec,
+      debounceMs: 50,
+      onBundle: (e) => {
+        events.push(e);
+        waiter?.(e);
+      },
+      onError: () => {},
+    });
+    await watcher.ready;
+  });
+
+  afterAll(() => {
+    watcher?.close();
+  });
+
+  it('bundles and writes outputs on start', () => {
+    expect(events).toHaveLength(1);
+    expect(events[0].written).toEqual([outputSpec]);
+    expect(events[0].statsDelta).toEqual([]);
+    expect(fs.existsSync(outputSpec)).toBe(true);
+  });
+
+  it('re-bundles on change and reports the stats delta', async () => {
+    const next = nextEvent();
+    fs.writeFileSync(path.join(specDir, 'rest-api.yaml'), specYaml(['/a', '/b']));
+    const event = await next;
+
+    expect(event.written).toEqual([outputSpec]);
+    expect(event.statsDelta).toEqual([
+      { stat: 'pathCount', before: 1, after: 2 },
+    ]);
+    const spec = JSON.parse(fs.readFileSync(outputSpec, 'utf8'));
+    expect(Object.keys(spec.paths)).toEqual(['/a', '/b']);
+  });
+
+  it('does not rewrite outputs whose content did not change', async () => {
+    const before = fs.statSync(outputSpec).mtimeMs;
+    const next = nextEvent();
+    fs.writeFileSync(path.join(specDir, 'rest-api.yaml'), specYaml(['/a', '/b']));
+    const event = await next;
+
+    expect(event.written).toEqual([]);
+    expect(fs.statSync(outputSpec).mtimeMs).toBe(before);
+  });
+});
+
+describe('formatStatsDelta', () => {
+  it('renders each changed stat', () => {
+    expect(
+      formatStatsDelta([
+        { stat: 'schemaCount', before: 510, after: 511 },
+        { stat: 'freshDedupCount', before: 298, after: 297 },
+      ])
+    ).toBe('schemaCount 510 → 511, freshDedupCount 298 → 297');
+    expect(formatStatsDelta([])).toBe('no stats changes');
+  });
+});